@@ -0,0 +1,16 @@
+/* global Proxy */
+
+// Obsidian's package only has types, the app provides the module at runtime. Tests
+// get a stand-in class for each export, enough for modules that extend them to load.
+module.exports = new Proxy(
+	{},
+	{
+		get: (target, name) => {
+			if (name === "__esModule") return false;
+			if (!(name in target)) {
+				target[name] = class {};
+			}
+			return target[name];
+		},
+	}
+);
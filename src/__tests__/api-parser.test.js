@@ -0,0 +1,60 @@
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { encodeTrackContext, extractCaptionTracks, pickCaptionTrack } = require("../api-parser");
+
+describe("API parser - encodeTrackContext", () => {
+	test("should encode English auto-generated captions", () => {
+		expect(encodeTrackContext("en", true)).toBe("CgNhc3ISAmVuGgA%3D");
+	});
+
+	test("should encode English uploaded captions", () => {
+		expect(encodeTrackContext("en", false)).toBe("CgASAmVuGgA%3D");
+	});
+});
+
+describe("API parser - extractCaptionTracks", () => {
+	test("should read the tracks from the player response", () => {
+		const html =
+			'<script>var ytInitialPlayerResponse = {"captions":{"captionTracks":[' +
+			'{"baseUrl":"https://example.com/?a=[1]","name":{"simpleText":"English (auto-generated)"},"languageCode":"en","kind":"asr"},' +
+			'{"name":{"runs":[{"text":"German"},{"text":" [de]"}]},"languageCode":"de"},' +
+			'{"name":{"simpleText":"no code"}}' +
+			'],"audioTracks":[]}};</script>';
+		expect(extractCaptionTracks(html)).toEqual([
+			{
+				languageCode: "en",
+				name: "English (auto-generated)",
+				autoGenerated: true,
+			},
+			{ languageCode: "de", name: "German [de]", autoGenerated: false },
+		]);
+	});
+
+	test("should return no tracks for a page without captions", () => {
+		expect(extractCaptionTracks("<html></html>")).toEqual([]);
+	});
+});
+
+describe("API parser - pickCaptionTrack", () => {
+	const english = { languageCode: "en-GB", name: "English", autoGenerated: false };
+	const englishAsr = { languageCode: "en", name: "English (auto)", autoGenerated: true };
+	const german = { languageCode: "de", name: "German", autoGenerated: false };
+	const frenchAsr = { languageCode: "fr", name: "French (auto)", autoGenerated: true };
+
+	test("should prefer uploaded captions over auto-generated ones", () => {
+		expect(pickCaptionTrack([englishAsr, english], ["en"])).toBe(english);
+	});
+
+	test("should go through the languages in order of preference", () => {
+		expect(pickCaptionTrack([english, german], ["fr", "de", "en"])).toBe(german);
+	});
+
+	test("should fall back to auto-generated captions in the language", () => {
+		expect(pickCaptionTrack([german, frenchAsr], ["fr"])).toBe(frenchAsr);
+	});
+
+	test("should fall back to the first uploaded track, then the first track", () => {
+		expect(pickCaptionTrack([frenchAsr, german], ["ja"])).toBe(german);
+		expect(pickCaptionTrack([frenchAsr, englishAsr], ["ja"])).toBe(frenchAsr);
+		expect(pickCaptionTrack([], ["en"])).toBeUndefined();
+	});
+});
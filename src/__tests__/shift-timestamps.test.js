@@ -0,0 +1,48 @@
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { getRescaleTransform, rewriteTimestampLinks } = require("../shift-timestamps-modal");
+
+describe("Shift timestamps - rewriteTimestampLinks", () => {
+	const shift = (by) => (seconds) => seconds + by;
+
+	test("should shift the link text and the t= param of the url", () => {
+		const text = "- [01:30](https://www.youtube.com/watch?v=abc&t=90) intro";
+		expect(rewriteTimestampLinks(text, shift(10))).toEqual({
+			text: "- [01:40](https://www.youtube.com/watch?v=abc&t=100) intro",
+			count: 1,
+		});
+	});
+
+	test("should keep the s suffix of a t= param", () => {
+		const text = "[00:45](https://vimeo.com/76979871#t=45s)";
+		expect(rewriteTimestampLinks(text, shift(-15)).text).toBe(
+			"[00:30](https://vimeo.com/76979871#t=30s)"
+		);
+	});
+
+	test("should shift both ends of a range", () => {
+		const text = "[12:30-13:05]() and [1:00:00](#src=2)";
+		expect(rewriteTimestampLinks(text, shift(30))).toEqual({
+			text: "[13:00-13:35]() and [1:00:30](#src=2)",
+			count: 2,
+		});
+	});
+
+	test("should not go below zero", () => {
+		expect(rewriteTimestampLinks("[00:05](?t=5)", shift(-10)).text).toBe(
+			"[00:00](?t=0)"
+		);
+	});
+
+	test("should leave other links and unchanged timestamps alone", () => {
+		const text = "[docs](https://example.com?t=5)\n[00:10]()";
+		expect(rewriteTimestampLinks(text, shift(0))).toEqual({ text, count: 0 });
+	});
+
+	test("should rescale between two anchors", () => {
+		// 1:00 -> 1:00 and 11:00 -> 12:00, so 6:00 lands on 6:30
+		const transform = getRescaleTransform(60, 60, 660, 720);
+		expect(rewriteTimestampLinks("[06:00](?t=360)", transform).text).toBe(
+			"[06:30](?t=390)"
+		);
+	});
+});
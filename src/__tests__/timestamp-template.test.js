@@ -0,0 +1,44 @@
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+const { getTemplateVariableNames, renderTemplate } = require("../timestamp-template");
+
+describe("Timestamp template - renderTemplate", () => {
+	const variables = { ts: "12:05", link: "https://example.com?t=725", title: "" };
+
+	test("should replace every occurrence of a variable", () => {
+		expect(renderTemplate("[{ts}]({link}) {ts}", variables)).toBe(
+			"[12:05](https://example.com?t=725) 12:05"
+		);
+	});
+
+	test("should leave unknown placeholders as they are", () => {
+		expect(renderTemplate("{ts} {unknown}", variables)).toBe("12:05 {unknown}");
+	});
+
+	test("should turn a literal \\n into a new line", () => {
+		expect(renderTemplate("\\n- {ts}", variables)).toBe("\n- 12:05");
+	});
+
+	test("should keep {#name} sections only when the variable has a value", () => {
+		const template = "{#ts}at {ts}{/ts}{#title} in {title}{/title}";
+		expect(renderTemplate(template, variables)).toBe("at 12:05");
+	});
+
+	test("should keep {^name} sections only when the variable has no value", () => {
+		const template = "{^title}untitled{/title}{^ts}no time{/ts}";
+		expect(renderTemplate(template, variables)).toBe("untitled");
+	});
+
+	test("should render nested sections", () => {
+		const template = "{#ts}[{ts}]{^title} (untitled){/title}{/ts}";
+		expect(renderTemplate(template, variables)).toBe("[12:05] (untitled)");
+	});
+});
+
+describe("Timestamp template - getTemplateVariableNames", () => {
+	test("should find variables in placeholders and sections", () => {
+		const names = getTemplateVariableNames(
+			"{#chapter}{chapter}: {/chapter}[{ts}]({link}){^title}!{/title}"
+		);
+		expect(Array.from(names).sort()).toEqual(["chapter", "link", "title", "ts"]);
+	});
+});
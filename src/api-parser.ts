@@ -1,6 +1,11 @@
 import { parse } from "node-html-parser";
 import * as protobuf from "protobufjs";
-import type { TranscriptConfig, TranscriptLine, VideoData } from "./types";
+import type {
+	CaptionTrack,
+	TranscriptConfig,
+	TranscriptLine,
+	VideoData,
+} from "./types";
 import { YoutubeTranscriptError } from "./types";
 
 const YOUTUBE_TITLE_REGEX = new RegExp(
@@ -10,6 +15,17 @@ const YOUTUBE_VIDEOID_REGEX = new RegExp(
 	/<link\s+rel="canonical"\s+href="([^"]*)\">/,
 );
 
+// The caption track to fetch, as a nested message: field 1 is the kind ("asr" for
+// auto-generated captions, empty otherwise), field 2 the language code and field 3 is
+// empty. e.g English auto-generated captions encode to CgNhc3ISAmVuGgA%3D
+export function encodeTrackContext(lang: string, useAsrStyle: boolean): string {
+	const writer = protobuf.Writer.create();
+	writer.uint32(10).string(useAsrStyle ? "asr" : "");
+	writer.uint32(18).string(lang);
+	writer.uint32(26).string("");
+	return Buffer.from(writer.finish()).toString("base64").replace(/=/g, "%3D");
+}
+
 function generateTranscriptParams(
 	videoId: string,
 	useAsrStyle: boolean,
@@ -22,15 +38,7 @@ function generateTranscriptParams(
 	writer.uint32(10).string(videoId);
 
 	// Field 2: Language/context data (string) - base64 with URL-encoded = sign
-	let contextData;
-	if (useAsrStyle) {
-		// For videos that use asr style: CgNhc3ISAmVuGgA%3D
-		contextData = "CgNhc3ISAmVuGgA%3D";
-	} else {
-		// For videos that don't use asr style: CgASAmVuGgA%3D
-		contextData = "CgASAmVuGgA%3D";
-	}
-	writer.uint32(18).string(contextData);
+	writer.uint32(18).string(encodeTrackContext(lang, useAsrStyle));
 
 	// Field 3: Number 1 (varint)
 	writer.uint32(24).uint32(1);
@@ -56,6 +64,8 @@ function generateTranscriptParams(
 export function generateAlternativeTranscriptParams(
 	videoId: string,
 	lang: string = "en",
+	// whether the track is auto-generated, when it's known
+	autoGenerated?: boolean,
 ): string[] {
 	// Generate both possible parameter combinations to try
 	const variations = [
@@ -67,7 +77,10 @@ export function generateAlternativeTranscriptParams(
 		{ useAsrStyle: true, field6Value: 0 },
 		// Alternative 3: No ASR style with field6 = 1
 		{ useAsrStyle: false, field6Value: 1 },
-	];
+	].filter(
+		(variant) =>
+			autoGenerated === undefined || variant.useAsrStyle === autoGenerated,
+	);
 
 	return variations.map((variant) =>
 		generateTranscriptParams(
@@ -272,6 +285,85 @@ export function extractParamsFromPage(htmlContent: string): string | null {
 	return null;
 }
 
+// the JSON array or object starting at start, skipping over brackets inside strings
+function sliceJsonValue(text: string, start: number): string | null {
+	let depth = 0;
+	let inString = false;
+	for (let i = start; i < text.length; i++) {
+		const char = text[i];
+		if (inString) {
+			if (char === "\\") i++;
+			else if (char === '"') inString = false;
+		} else if (char === '"') {
+			inString = true;
+		} else if (char === "[" || char === "{") {
+			depth++;
+		} else if (char === "]" || char === "}") {
+			depth--;
+			if (depth === 0) return text.slice(start, i + 1);
+		}
+	}
+	return null;
+}
+
+interface PageCaptionTrack {
+	languageCode?: string;
+	kind?: string;
+	name?: { simpleText?: string; runs?: { text: string }[] };
+}
+
+// The caption tracks listed in the watch page's player response, e.g
+// "captionTracks":[{"languageCode":"en","kind":"asr","name":{"simpleText":"English (auto-generated)"},...}]
+export function extractCaptionTracks(htmlContent: string): CaptionTrack[] {
+	const match = htmlContent.match(/"captionTracks"\s*:\s*\[/);
+	if (match?.index === undefined) return [];
+	const json = sliceJsonValue(
+		htmlContent,
+		match.index + match[0].length - 1,
+	);
+	if (!json) return [];
+	try {
+		const pageTracks: PageCaptionTrack[] = JSON.parse(json);
+		const tracks: CaptionTrack[] = [];
+		pageTracks.forEach((track) => {
+			if (typeof track?.languageCode !== "string") return;
+			tracks.push({
+				languageCode: track.languageCode,
+				name:
+					track.name?.simpleText ??
+					track.name?.runs?.map((run) => run.text).join("") ??
+					track.languageCode,
+				autoGenerated: track.kind === "asr",
+			});
+		});
+		return tracks;
+	} catch (error) {
+		debugLog("❌ DEBUG: Failed to parse captionTracks:", error);
+		return [];
+	}
+}
+
+// The first track in one of the languages, in order of preference, uploaded captions
+// before auto-generated ones. "en" also matches regional tracks like "en-GB". Without
+// any of the languages it's the first uploaded track, or else the first track.
+export function pickCaptionTrack(
+	tracks: CaptionTrack[],
+	languages: string[],
+): CaptionTrack | undefined {
+	const isLanguage = (track: CaptionTrack, lang: string) => {
+		const code = track.languageCode.toLowerCase();
+		const wanted = lang.toLowerCase();
+		return code === wanted || code.split("-")[0] === wanted;
+	};
+	for (const lang of languages) {
+		const track =
+			tracks.find((track) => !track.autoGenerated && isLanguage(track, lang)) ??
+			tracks.find((track) => track.autoGenerated && isLanguage(track, lang));
+		if (track) return track;
+	}
+	return tracks.find((track) => !track.autoGenerated) ?? tracks[0];
+}
+
 function extractVisitorData(htmlContent: string): string | null {
 	// Try to extract visitorData from the page
 	const visitorDataMatch =
@@ -295,6 +387,9 @@ export function parseVideoPageWithFallbacks(
 	config?: TranscriptConfig,
 ): {
 	title: string;
+	tracks: CaptionTrack[];
+	// the track being requested, when the page lists any
+	track?: CaptionTrack;
 	transcriptRequests: Array<{
 		url: string;
 		headers: Record<string, string>;
@@ -334,10 +429,25 @@ export function parseVideoPageWithFallbacks(
 		);
 	}
 
+	// Pick the caption track to request
+	const tracks = extractCaptionTracks(htmlContent);
+	const track =
+		config?.track ??
+		pickCaptionTrack(tracks, [
+			config?.lang || "en",
+			...(config?.fallbackLangs ?? []),
+		]);
+	const lang = track?.languageCode ?? config?.lang ?? "en";
+	debugLog(
+		`🔍 DEBUG: Found ${tracks.length} caption tracks, requesting:`,
+		track ? `${track.languageCode} (${track.name})` : "NONE",
+	);
+
 	// Generate all possible parameter combinations
 	const generatedParams = generateAlternativeTranscriptParams(
 		videoId,
-		config?.lang || "en",
+		lang,
+		track?.autoGenerated,
 	);
 	debugLog(
 		"🔧 DEBUG: Generated",
@@ -371,16 +481,17 @@ export function parseVideoPageWithFallbacks(
 		}
 	}
 
-	// If we found params on the page, try those first, then fall back to generated ones
+	// The page params are for the video's default track, which may not be the one picked,
+	// so they are only tried after the params generated for the track
 	const allParams = pageParams
-		? [pageParams, ...generatedParams]
+		? [...generatedParams, pageParams]
 		: generatedParams;
 
 	if (pageParams) {
 		debugLog(
-			"✅ DEBUG: Will try page params FIRST (attempt 1), then",
+			"✅ DEBUG: Will try",
 			generatedParams.length,
-			"generated variations",
+			"generated variations, then page params",
 		);
 	} else {
 		debugLog(
@@ -396,7 +507,7 @@ export function parseVideoPageWithFallbacks(
 				client: {
 					clientName: "WEB",
 					clientVersion: "2.20250701.01.00",
-					hl: config?.lang || "en",
+					hl: lang,
 					gl: config?.country || "EN",
 					userAgent:
 						"Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.5 Safari/605.1.15,gzip(gfe)",
@@ -489,6 +600,8 @@ export function parseVideoPageWithFallbacks(
 
 	return {
 		title,
+		tracks,
+		track,
 		transcriptRequests,
 	};
 }
\ No newline at end of file
@@ -2,6 +2,19 @@ import { useContext, useEffect, useState, createContext } from "react";
 import * as React from "react";
 import { MediaNotesPluginSettings } from "./main";
 import { EventEmitter } from "events";
+import type { SeekBarMarker } from "./components/seek-bar";
+
+// the segment a player is looping or stopping at, shown on its progress bar
+export interface LoopStatus {
+	start: number;
+	// unset while waiting for the loop end
+	end?: number;
+	loop: boolean;
+	// 1 based, 0 before the loop has started
+	pass: number;
+	// 0 when looping until cleared
+	repeats: number;
+}
 
 // Define the type for the context
 interface ContextType {
@@ -13,6 +26,11 @@ interface ContextType {
 	showPause: boolean;
 	showSpeed: boolean;
 	currentSpeed?: number;
+	loopStatus: LoopStatus | null;
+	// the timestamps written in the player's note
+	noteMarkers: SeekBarMarker[];
+	// counts "Refresh transcript" commands, the transcript is fetched again when it changes
+	transcriptRefresh: number;
 }
 
 // Create the context with initial value as null
@@ -22,7 +40,8 @@ export const AppProvider: React.FC<{
 	children: React.ReactNode;
 	settingsParam: MediaNotesPluginSettings | null;
 	eventEmitter: EventEmitter;
-}> = ({ children, settingsParam, eventEmitter }) => {
+	getNoteMarkers?: () => SeekBarMarker[];
+}> = ({ children, settingsParam, eventEmitter, getNoteMarkers }) => {
 	const [settings, setSettings] = useState<MediaNotesPluginSettings | null>(
 		settingsParam
 	);
@@ -38,6 +57,9 @@ export const AppProvider: React.FC<{
 	const [showPause, setShowPause] = useState<boolean>(false);
 	const [showSpeed, setShowSpeed] = useState<boolean>(false);
 	const [currentSpeed, setCurrentSpeed] = useState<number | undefined>(1);
+	const [loopStatus, setLoopStatus] = useState<LoopStatus | null>(null);
+	const [noteMarkers, setNoteMarkers] = useState<SeekBarMarker[]>([]);
+	const [transcriptRefresh, setTranscriptRefresh] = useState<number>(0);
 
 	useEffect(() => {
 		// Listen for the 'settingsUpdated' event
@@ -108,10 +130,19 @@ export const AppProvider: React.FC<{
 		};
 
 		eventEmitter.on("handleAction", handleShowTimestamp);
+		eventEmitter.on("loopUpdated", setLoopStatus);
+		eventEmitter.on("markersUpdated", setNoteMarkers);
+		const refreshTranscript = () => setTranscriptRefresh((count) => count + 1);
+		eventEmitter.on("refreshTranscript", refreshTranscript);
+		// markers sent before this effect ran would be missed otherwise
+		if (getNoteMarkers) setNoteMarkers(getNoteMarkers());
 
 		// Clean up the listener when the component unmounts
 		return () => {
 			eventEmitter.off("settingsUpdated", updateSettings);
+			eventEmitter.off("loopUpdated", setLoopStatus);
+			eventEmitter.off("markersUpdated", setNoteMarkers);
+			eventEmitter.off("refreshTranscript", refreshTranscript);
 			clearTimeout(timestampDebounceTimer);
 		};
 	}, []);
@@ -127,6 +158,9 @@ export const AppProvider: React.FC<{
 				showPlay,
 				showSpeed,
 				currentSpeed,
+				loopStatus,
+				noteMarkers,
+				transcriptRefresh,
 			}}
 		>
 			{children}
@@ -12,20 +12,20 @@ function createMediaNote() {
 			}
 			var timestamp = videoElement.currentTime;
 
+			// the time is passed separately, so the note's preview_link stays clean
 			var urlObj = new URL(url);
-			if (timestamp) {
-				// add t parameter to the url, and replace if exists
-				urlObj.searchParams.set("t", Math.floor(timestamp));
-			}
+			urlObj.searchParams.delete("t");
 
 			var title = makeObsidianFriendly(document.title);
 			title = title.replace(" - YouTube", "");
-			var encodedTitle = encodeURIComponent(title) + ".md";
-			var content = encodeURIComponent(
-				"---\npreview_link: " + urlObj + "\n---\n#Video"
-			);
+			// opens the video's existing note if there is one, otherwise creates it.
+			// No time for a video that hasn't been started, so an existing note resumes where it was
 			window.open(
-				"obsidian://new?name=" + encodedTitle + "&content=" + content
+				"obsidian://web-preview?url=" +
+					encodeURIComponent(urlObj.toString()) +
+					(timestamp >= 1 ? "&t=" + Math.floor(timestamp) : "") +
+					"&name=" +
+					encodeURIComponent(title)
 			);
 		}
 	}
@@ -0,0 +1,35 @@
+import * as React from "react";
+import type { CaptionTrack } from "../types";
+
+const getTrackKey = (track: CaptionTrack) =>
+	`${track.languageCode}:${track.autoGenerated ? "asr" : "manual"}`;
+
+// switches the transcript between the video's caption tracks
+export const CaptionTrackSelect: React.FC<{
+	tracks: CaptionTrack[];
+	activeTrack?: CaptionTrack;
+	onSelect: (track: CaptionTrack) => void;
+}> = ({ tracks, activeTrack, onSelect }) => {
+	if (tracks.length < 2) return null;
+
+	return (
+		<select
+			className="dropdown transcript-track-select"
+			aria-label="Caption track"
+			value={activeTrack ? getTrackKey(activeTrack) : ""}
+			onChange={(event) => {
+				const track = tracks.find(
+					(track) => getTrackKey(track) === event.target.value
+				);
+				if (track) onSelect(track);
+			}}
+		>
+			{!activeTrack && <option value="">Caption track</option>}
+			{tracks.map((track) => (
+				<option key={getTrackKey(track)} value={getTrackKey(track)}>
+					{track.name}
+				</option>
+			))}
+		</select>
+	);
+};
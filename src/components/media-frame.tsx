@@ -1,54 +1,50 @@
-import { useAppContext } from "../app-context";
+import { LoopStatus, useAppContext } from "../app-context";
 import { formatTimestamp, getMatchingCssForUrl } from "../main";
+import type { NotePlayerConfig } from "../main";
 import * as React from "react";
-import YouTube, { YouTubeEvent, YouTubeProps } from "react-youtube";
+import { Menu } from "obsidian";
 import { CSSTransition } from "react-transition-group";
-import { YoutubeTranscript } from "../youtube-transcript";
-import type { TranscriptLine } from "../types";
+import type {
+	CaptionTrack,
+	TranscriptConfig,
+	TranscriptLine,
+	TranscriptResponse,
+} from "../types";
 import { WebView } from "./web-view";
+import { SourceTabs } from "./source-tabs";
+import { SeekBar, SeekBarMarker } from "./seek-bar";
+import { CaptionTrackSelect } from "./caption-track-select";
+import {
+	HighlightedText,
+	TranscriptMatch,
+	TranscriptSearch,
+	findTranscriptMatches,
+} from "./transcript-search";
+import type {
+	MediaItem,
+	MediaPlayerProps,
+	MediaProvider,
+	PlaylistPosition,
+} from "../providers/media-provider";
+import { getNearestPlaybackRate } from "../providers/media-provider";
+
+const getSentenceCountLabel = (count: number) =>
+	count === 1 ? "1 sentence" : `${count} sentences`;
 
 // Types for enhanced transcript
-interface TranscriptSentence {
+export interface TranscriptSentence {
 	text: string;
 	startOffset: number;
 	endOffset: number;
 	originalIndex: number;
 }
 
-interface TranscriptParagraph {
+export interface TranscriptParagraph {
 	sentences: TranscriptSentence[];
 	startOffset: number;
 	endOffset: number;
 }
 
-export const getVideoId = (url: string) => {
-	try {
-		const urlObj = new URL(url);
-		// Check if this is a YouTube URL
-		if (urlObj.hostname.includes('youtube.com') || urlObj.hostname.includes('youtu.be')) {
-			if (urlObj.hostname.includes('youtu.be')) {
-				// Short URL format: https://youtu.be/VIDEO_ID
-				return urlObj.pathname.substring(1);
-			} else {
-				// Standard URL format: https://www.youtube.com/watch?v=VIDEO_ID
-				return urlObj.searchParams.get("v");
-			}
-		}
-		return null; // Not a YouTube URL
-	} catch {
-		return null; // Invalid URL
-	}
-};
-
-export const isYouTubeUrl = (url: string): boolean => {
-	try {
-		const urlObj = new URL(url);
-		return urlObj.hostname.includes('youtube.com') || urlObj.hostname.includes('youtu.be');
-	} catch {
-		return false;
-	}
-};
-
 // Helper function to split text into sentences
 const splitIntoSentences = (text: string): string[] => {
 	// Split on sentence-ending punctuation followed by whitespace or end of string
@@ -62,8 +58,8 @@ const splitIntoSentences = (text: string): string[] => {
 	return sentences;
 };
 
-// Function to group transcript lines into paragraphs of 3 sentences each
-const groupTranscriptIntoParagraphs = (transcriptLines: TranscriptLine[]): TranscriptParagraph[] => {
+// Function to split transcript lines into timed sentences
+const splitTranscriptIntoSentences = (transcriptLines: TranscriptLine[]): TranscriptSentence[] => {
 	const sentences: TranscriptSentence[] = [];
 	
 	// First, convert each transcript line into sentences
@@ -84,11 +80,18 @@ const groupTranscriptIntoParagraphs = (transcriptLines: TranscriptLine[]): Trans
 		});
 	});
 	
-	// Group sentences into paragraphs of 3
+	return sentences;
+};
+
+// Group sentences into paragraphs of a few sentences each
+export const groupSentencesIntoParagraphs = (
+	sentences: TranscriptSentence[],
+	sentencesPerParagraph = 3
+): TranscriptParagraph[] => {
 	const paragraphs: TranscriptParagraph[] = [];
 	
-	for (let i = 0; i < sentences.length; i += 3) {
-		const paragraphSentences = sentences.slice(i, i + 3);
+	for (let i = 0; i < sentences.length; i += sentencesPerParagraph) {
+		const paragraphSentences = sentences.slice(i, i + sentencesPerParagraph);
 		
 		paragraphs.push({
 			sentences: paragraphSentences,
@@ -100,22 +103,89 @@ const groupTranscriptIntoParagraphs = (transcriptLines: TranscriptLine[]): Trans
 	return paragraphs;
 };
 
-export const MediaFrame: React.FC<{
-	mediaLink: string;
-	ytRef: React.RefObject<YouTube>;
-	initSeconds: number;
-	autoplay?: boolean;
-}> = ({ mediaLink, ytRef, initSeconds, autoplay }) => {
+// Function to group transcript lines into paragraphs of 3 sentences each
+const groupTranscriptIntoParagraphs = (transcriptLines: TranscriptLine[]): TranscriptParagraph[] =>
+	groupSentencesIntoParagraphs(splitTranscriptIntoSentences(transcriptLines));
+
+// e.g "Loop 1:02-1:10 · 2/5", or "Loop from 1:02" until the loop end is set
+const getLoopLabel = (loopStatus: LoopStatus) => {
+	const start = formatTimestamp(loopStatus.start);
+	if (loopStatus.end === undefined) return `Loop from ${start}`;
+	const repeats = loopStatus.repeats ? `/${loopStatus.repeats}` : "";
+	return `Loop ${start}-${formatTimestamp(loopStatus.end)} · ${loopStatus.pass}${repeats}`;
+};
+
+// the paragraph and sentence being spoken at the given time, -1 when there's none
+export const findTranscriptPosition = (
+	paragraphs: TranscriptParagraph[],
+	seconds: number
+) => {
+	const timeMs = seconds * 1000;
+	const paragraphIndex = paragraphs.findIndex(
+		(paragraph) =>
+			timeMs >= paragraph.startOffset && timeMs <= paragraph.endOffset
+	);
+	if (paragraphIndex === -1) return { paragraphIndex, sentenceIndex: -1 };
+	const sentenceIndex = paragraphs[paragraphIndex].sentences.findIndex(
+		(sentence) => timeMs >= sentence.startOffset && timeMs <= sentence.endOffset
+	);
+	return { paragraphIndex, sentenceIndex };
+};
+
+type MediaFrameProps = Omit<
+	MediaPlayerProps,
+	"onReady" | "onPlay" | "onPause" | "onItemChange"
+> & {
+	provider?: MediaProvider;
+	// all of the note's sources, a switcher is shown when there's more than one
+	sources: string[];
+	sourceIndex: number;
+	onSelectSource: (index: number) => void;
+	// the note's preview_* overrides of the settings
+	noteConfig?: NotePlayerConfig;
+	// lets the plugin read the transcript, e.g for the {sentence} template variable
+	transcriptRef?: React.MutableRefObject<TranscriptParagraph[]>;
+	// quotes transcript sentences into the note, or copies the quote
+	onQuoteSentences: (
+		sentences: TranscriptSentence[],
+		action: "insert" | "copy"
+	) => void;
+	// fetches through the plugin's transcript cache, refresh skips the cached copy
+	getTranscript: (
+		url: string,
+		config: TranscriptConfig,
+		refresh: boolean
+	) => Promise<TranscriptResponse>;
+};
+
+export const MediaFrame: React.FC<MediaFrameProps> = ({
+	provider,
+	sources,
+	sourceIndex,
+	onSelectSource,
+	noteConfig,
+	transcriptRef,
+	getTranscript,
+	onQuoteSentences,
+	...playerProps
+}) => {
+	const { mediaLink, controllerRef } = playerProps;
+	const sourceTabs = (
+		<SourceTabs
+			sources={sources}
+			activeIndex={sourceIndex}
+			onSelect={onSelectSource}
+		/>
+	);
 	const context = useAppContext();
-	const isYoutube = isYouTubeUrl(mediaLink);
-	const videoId = isYoutube ? getVideoId(mediaLink) : null;
 	
-	// For non-YouTube links, render WebView
-	if (!isYoutube) {
+	// For links without a media provider, render WebView
+	if (!provider) {
 		const matchingCss = context?.settings ? getMatchingCssForUrl(mediaLink, context.settings.urlCssRules) : '';
 		
 		return (
 			<div className="media-top-container">
+				{sourceTabs}
 				<div className="media-container web-preview">
 					<WebView 
 						url={mediaLink}
@@ -130,17 +200,19 @@ export const MediaFrame: React.FC<{
 		);
 	}
 	
-	// For YouTube links, continue with existing logic
-	if (!videoId) return null;
-	
-	const opts: YouTubeProps["opts"] = {
-		playerVars: {
-			start: initSeconds,
-			autoplay: autoplay ? 1 : 0,
-		},
-	};
+	const mediaId = provider.getMediaId(mediaLink);
+	const Player = provider.Player;
+	const showTranscript =
+		noteConfig?.transcript !== undefined
+			? noteConfig.transcript !== false
+			: !!context?.settings?.showTranscript;
+	// preferred languages in order, e.g "de, en"
+	const transcriptLanguage =
+		typeof noteConfig?.transcript === "string"
+			? noteConfig.transcript
+			: context?.settings?.transcriptLanguage || "en";
 
-	// YouTube-specific state
+	// Player state
 	const [maxTime, setMaxTime] = React.useState<number>(0);
 	const [currentTimestamp, setCurrentTimestamp] = React.useState<number>(0);
 	const [transcript, setTranscript] = React.useState<TranscriptLine[]>([]);
@@ -150,38 +222,40 @@ export const MediaFrame: React.FC<{
 	const [currentParagraphIndex, setCurrentParagraphIndex] = React.useState<number>(-1);
 	const [currentSentenceIndex, setCurrentSentenceIndex] = React.useState<number>(-1);
 	const transcriptContainerRef = React.useRef<HTMLDivElement>(null);
-	const progressBarWidth = (currentTimestamp / maxTime) * 100;
 	const intervalRef = React.useRef<number | null>(null);
 	const [hideProgressBar, setHideProgressBar] = React.useState(true);
+	// the link whose player is ready, web pages without a video never are
+	const [readyLink, setReadyLink] = React.useState<string | null>(null);
+	const [chapters, setChapters] = React.useState<SeekBarMarker[]>([]);
+	const [playlistPosition, setPlaylistPosition] = React.useState<PlaylistPosition | null>(null);
+	// the transcript follows the playing item, which differs from mediaLink once a playlist moves on
+	const [transcriptLink, setTranscriptLink] = React.useState<string>(mediaLink);
 
 	const updateTimestamp = () => {
-		ytRef.current
-			?.getInternalPlayer()
+		controllerRef.current
 			?.getCurrentTime()
 			.then((time) => {
 				setCurrentTimestamp(time);
 			});
 	};
 
-	const onStateChange: YouTubeProps["onStateChange"] = (
-		event: YouTubeEvent<number>
-	) => {
-		const handleAsyncCode = async () => {
-			const state = event.data;
-			if (state === 1) {
-				updateTimestamp();
-				const interval = window.setInterval(() => {
-					updateTimestamp();
-				}, 1000);
-				intervalRef.current = interval;
-				setHideProgressBar(false);
-			}
-			if ((state === 2 || state === 0) && intervalRef.current) {
-				window.clearInterval(intervalRef.current);
-				setHideProgressBar(true);
-			}
-		};
-		void handleAsyncCode();
+	const onPlay = () => {
+		updateTimestamp();
+		if (intervalRef.current) {
+			window.clearInterval(intervalRef.current);
+		}
+		const interval = window.setInterval(() => {
+			updateTimestamp();
+		}, 1000);
+		intervalRef.current = interval;
+		setHideProgressBar(false);
+	};
+
+	const onPause = () => {
+		if (intervalRef.current) {
+			window.clearInterval(intervalRef.current);
+			setHideProgressBar(true);
+		}
 	};
 
 	React.useEffect(() => {
@@ -192,23 +266,104 @@ export const MediaFrame: React.FC<{
 		};
 	}, []);
 
+	const updateChapters = () => {
+		controllerRef.current
+			?.getChapters?.()
+			.then((items) =>
+				setChapters(
+					items.map((chapter) => ({
+						seconds: chapter.startSeconds,
+						label: chapter.title,
+						kind: "chapter",
+					}))
+				)
+			);
+	};
+
+	const onSeek = (seconds: number) => {
+		controllerRef.current?.seekTo(seconds);
+		setCurrentTimestamp(seconds);
+	};
+
+	const onReady = (duration: number) => {
+		setReadyLink(mediaLink);
+		setMaxTime(duration);
+		updateChapters();
+		const controller = controllerRef.current;
+		const speed = noteConfig?.speed;
+		if (controller && speed) {
+			// players only take the rates they list, and YouTube rounds others toward 1
+			controller
+				.getAvailablePlaybackRates()
+				.then((rates) =>
+					controller.setPlaybackRate(getNearestPlaybackRate(rates, speed))
+				);
+		}
+	};
+
+	// pause when playback reaches the note's preview_end, but let it carry on if played again
+	const previousTimestampRef = React.useRef<number>(0);
+	React.useEffect(() => {
+		const endSeconds = noteConfig?.endSeconds;
+		if (
+			endSeconds !== undefined &&
+			previousTimestampRef.current < endSeconds &&
+			currentTimestamp >= endSeconds
+		) {
+			controllerRef.current?.pause();
+		}
+		previousTimestampRef.current = currentTimestamp;
+	}, [currentTimestamp]);
+
+	const onItemChange = (item: MediaItem) => {
+		setTranscriptLink(item.mediaLink);
+		controllerRef.current?.getDuration().then(setMaxTime);
+		updateChapters();
+		controllerRef.current?.getPlaylistPosition?.().then(setPlaylistPosition);
+	};
+
 	React.useEffect(() => {
 		if (context?.showTimestamp) {
 			updateTimestamp();
 		}
 	}, [context?.showTimestamp]);
 
+	// the video's caption tracks, and the one the transcript is from
+	const [transcriptTracks, setTranscriptTracks] = React.useState<CaptionTrack[]>([]);
+	const [transcriptTrack, setTranscriptTrack] = React.useState<CaptionTrack | undefined>();
+	// a track picked from the dropdown, only for the video it was picked on
+	const [selectedTrack, setSelectedTrack] = React.useState<{
+		link: string;
+		track: CaptionTrack;
+	} | null>(null);
+	const requestedTrack =
+		selectedTrack?.link === transcriptLink ? selectedTrack.track : undefined;
+
+	// bumped by the "Refresh transcript" command
+	const transcriptRefresh = context?.transcriptRefresh ?? 0;
+	const lastTranscriptRefreshRef = React.useRef(transcriptRefresh);
+
 	// Fetch transcript when component mounts
 	React.useEffect(() => {
+		const refresh = transcriptRefresh !== lastTranscriptRefreshRef.current;
+		lastTranscriptRefreshRef.current = transcriptRefresh;
 		const fetchTranscript = async () => {
 			try {
 				setTranscriptLoading(true);
 				setTranscriptError(null);
 				
-				const transcriptData = await YoutubeTranscript.getTranscript(mediaLink, {
-					lang: context?.settings?.transcriptLanguage || "en"
-				});
+				const [lang, ...fallbackLangs] = transcriptLanguage
+					.split(",")
+					.map((language) => language.trim())
+					.filter((language) => language);
+				const transcriptData = await getTranscript(
+					transcriptLink,
+					{ lang, fallbackLangs, track: requestedTrack },
+					refresh
+				);
 				setTranscript(transcriptData.lines);
+				setTranscriptTracks(transcriptData.tracks ?? []);
+				setTranscriptTrack(transcriptData.track);
 				
 				// Generate paragraph structure
 				const paragraphs = groupTranscriptIntoParagraphs(transcriptData.lines);
@@ -221,42 +376,130 @@ export const MediaFrame: React.FC<{
 			}
 		};
 
-		if (videoId && context?.settings?.showTranscript) {
+		if (mediaId && provider.supportsTranscript && showTranscript) {
 			fetchTranscript();
 		}
-	}, [mediaLink, videoId, context?.settings?.showTranscript, context?.settings?.transcriptLanguage]);
+	}, [transcriptLink, mediaId, showTranscript, transcriptLanguage, transcriptRefresh, requestedTrack]);
+
+	React.useEffect(() => {
+		if (!transcriptRef) return;
+		transcriptRef.current = transcriptParagraphs;
+		return () => {
+			transcriptRef.current = [];
+		};
+	}, [transcriptParagraphs]);
 
 	// Handle transcript timestamp clicks
 	const handleTranscriptClick = (offsetMs: number) => {
 		const offsetSeconds = offsetMs / 1000;
-		ytRef.current?.getInternalPlayer()?.seekTo(offsetSeconds, true);
+		controllerRef.current?.seekTo(offsetSeconds);
+	};
+
+	// Sentences picked to quote, by shift-clicking or selecting across them. Indexes
+	// count sentences from the start of the transcript
+	const transcriptSentences = React.useMemo(() => {
+		const sentences: TranscriptSentence[] = [];
+		transcriptParagraphs.forEach((paragraph) => sentences.push(...paragraph.sentences));
+		return sentences;
+	}, [transcriptParagraphs]);
+	const paragraphStartIndexes = React.useMemo(() => {
+		let count = 0;
+		return transcriptParagraphs.map((paragraph) => {
+			const start = count;
+			count += paragraph.sentences.length;
+			return start;
+		});
+	}, [transcriptParagraphs]);
+	const [sentenceAnchor, setSentenceAnchor] = React.useState<number | null>(null);
+	const [pickedSentences, setPickedSentences] = React.useState<{
+		from: number;
+		to: number;
+	} | null>(null);
+
+	React.useEffect(() => {
+		setSentenceAnchor(null);
+		setPickedSentences(null);
+	}, [transcriptSentences]);
+
+	const pickSentences = (a: number, b: number) =>
+		setPickedSentences({ from: Math.min(a, b), to: Math.max(a, b) });
+
+	const getPickedSentences = () =>
+		pickedSentences
+			? transcriptSentences.slice(pickedSentences.from, pickedSentences.to + 1)
+			: [];
+
+	// a click seeks to the sentence, a shift-click picks the sentences from the last one clicked
+	const onSentenceClick = (event: React.MouseEvent, index: number) => {
+		if (event.shiftKey) {
+			window.getSelection()?.removeAllRanges();
+			const current =
+				currentParagraphIndex >= 0
+					? paragraphStartIndexes[currentParagraphIndex] + Math.max(currentSentenceIndex, 0)
+					: index;
+			pickSentences(sentenceAnchor ?? current, index);
+			return;
+		}
+		// the end of a drag selection, handled on mouseup
+		if (!window.getSelection()?.isCollapsed) return;
+		setPickedSentences(null);
+		setSentenceAnchor(index);
+		handleTranscriptClick(transcriptSentences[index].startOffset);
+	};
+
+	// selecting text across sentences picks those sentences
+	const onTranscriptMouseUp = (event: React.MouseEvent) => {
+		if (event.shiftKey) return;
+		const selection = window.getSelection();
+		if (!selection || selection.isCollapsed) return;
+		const getSentenceIndex = (node: Node | null) => {
+			const element = node instanceof Element ? node : node?.parentElement;
+			const sentenceEl = element?.closest<HTMLElement>(".transcript-sentence");
+			return sentenceEl ? Number(sentenceEl.dataset.sentenceIndex) : undefined;
+		};
+		const from = getSentenceIndex(selection.anchorNode);
+		const to = getSentenceIndex(selection.focusNode);
+		if (from === undefined || to === undefined) return;
+		pickSentences(from, to);
+	};
+
+	const onSentenceContextMenu = (event: React.MouseEvent, index: number) => {
+		event.preventDefault();
+		// the picked sentences when right-clicking one of them, otherwise just this one
+		const sentences =
+			pickedSentences && index >= pickedSentences.from && index <= pickedSentences.to
+				? getPickedSentences()
+				: [transcriptSentences[index]];
+		new Menu()
+			.addItem((item) =>
+				item
+					.setTitle("Copy with link")
+					.setIcon("copy")
+					.onClick(() => onQuoteSentences(sentences, "copy"))
+			)
+			.addItem((item) =>
+				item
+					.setTitle("Insert quote with timestamp range")
+					.setIcon("quote-glyph")
+					.onClick(() => onQuoteSentences(sentences, "insert"))
+			)
+			.addItem((item) =>
+				item
+					.setTitle("Play from here")
+					.setIcon("play")
+					.onClick(() => handleTranscriptClick(sentences[0].startOffset))
+			)
+			.showAtMouseEvent(event.nativeEvent);
 	};
 
 	// Update current paragraph and sentence based on video position
 	const updateCurrentPosition = React.useCallback(() => {
 		if (transcriptParagraphs.length === 0) return;
 		
-		const currentTimeMs = currentTimestamp * 1000;
-		let newParagraphIndex = -1;
-		let newSentenceIndex = -1;
-		
-		// Find current paragraph
-		for (let i = 0; i < transcriptParagraphs.length; i++) {
-			const paragraph = transcriptParagraphs[i];
-			if (currentTimeMs >= paragraph.startOffset && currentTimeMs <= paragraph.endOffset) {
-				newParagraphIndex = i;
-				
-				// Find current sentence within paragraph
-				for (let j = 0; j < paragraph.sentences.length; j++) {
-					const sentence = paragraph.sentences[j];
-					if (currentTimeMs >= sentence.startOffset && currentTimeMs <= sentence.endOffset) {
-						newSentenceIndex = j;
-						break;
-					}
-				}
-				break;
-			}
-		}
+		const {
+			paragraphIndex: newParagraphIndex,
+			sentenceIndex: newSentenceIndex,
+		} = findTranscriptPosition(transcriptParagraphs, currentTimestamp);
 		
 		// Update indices if they changed
 		if (newParagraphIndex !== currentParagraphIndex) {
@@ -272,8 +515,64 @@ export const MediaFrame: React.FC<{
 		updateCurrentPosition();
 	}, [updateCurrentPosition]);
 
+	// Transcript search
+	const [searchQuery, setSearchQuery] = React.useState<string>("");
+	const [activeMatchIndex, setActiveMatchIndex] = React.useState<number>(0);
+	const searchMatches = React.useMemo(
+		() => findTranscriptMatches(transcriptParagraphs, searchQuery),
+		[transcriptParagraphs, searchQuery]
+	);
+	// by "paragraphIndex-sentenceIndex", so each sentence finds its own matches quickly
+	const sentenceMatches = React.useMemo(() => {
+		const bySentence: Record<string, TranscriptMatch[]> = {};
+		searchMatches.forEach((match) => {
+			const key = `${match.paragraphIndex}-${match.sentenceIndex}`;
+			if (!bySentence[key]) bySentence[key] = [];
+			bySentence[key].push(match);
+		});
+		return bySentence;
+	}, [searchMatches]);
+	const activeMatch = searchMatches[activeMatchIndex];
+
+	const onSearchQueryChange = (query: string) => {
+		setSearchQuery(query);
+		setActiveMatchIndex(0);
+	};
+
+	// makes a match the active one, and seeks to its sentence if the settings say so
+	const selectSearchMatch = (index: number) => {
+		const match = searchMatches[index];
+		if (!match) return;
+		setActiveMatchIndex(index);
+		if (context?.settings?.seekToTranscriptMatch) {
+			const sentence =
+				transcriptParagraphs[match.paragraphIndex]?.sentences[match.sentenceIndex];
+			if (sentence) handleTranscriptClick(sentence.startOffset);
+		}
+	};
+
+	const stepSearchMatch = (direction: 1 | -1) => {
+		const count = searchMatches.length;
+		if (count === 0) return;
+		selectSearchMatch((activeMatchIndex + direction + count) % count);
+	};
+
+	// keep the active match in view, within the transcript container only
+	React.useEffect(() => {
+		const container = transcriptContainerRef.current;
+		const matchEl = container?.querySelector<HTMLElement>(
+			".transcript-search-match.is-active"
+		);
+		if (!container || !matchEl) return;
+		const matchTop =
+			matchEl.getBoundingClientRect().top - container.getBoundingClientRect().top;
+		container.scrollTop += matchTop - container.clientHeight / 2;
+	}, [activeMatch]);
+
 	// Auto-scroll to current paragraph within transcript container only
 	React.useEffect(() => {
+		// don't pull the transcript away from the search results
+		if (searchQuery.trim()) return;
 		if (currentParagraphIndex >= 0 && transcriptContainerRef.current) {
 			const container = transcriptContainerRef.current;
 			const currentParagraphElement = container.querySelector(
@@ -341,23 +640,27 @@ export const MediaFrame: React.FC<{
 	const playRef = React.useRef(null);
 	const pauseRef = React.useRef(null);
 	const speedRef = React.useRef(null);
+	const loopStatus = context?.loopStatus;
 
 	return (
 		<div className="media-top-container">
-			<div className="media-container">
-				{/* @ts-ignore TS2607 */}
-				<YouTube
-					ref={ytRef}
-					className="youtube-iframe"
-					iframeClassName={`youtube-iframe`}
-					videoId={videoId}
-					opts={opts}
-					onStateChange={onStateChange}
-					onReady={async (event: YouTubeEvent) => {
-						const duration = await event.target.getDuration();
-						setMaxTime(duration);
-					}}
+			{sourceTabs}
+			<div className={`media-container ${provider.containerClassName ?? ""}`}>
+				<Player
+					{...playerProps}
+					onReady={onReady}
+					onPlay={onPlay}
+					onPause={onPause}
+					onItemChange={onItemChange}
 				/>
+				{playlistPosition && (
+					<div className="playlist-position">
+						{playlistPosition.index + 1} / {playlistPosition.total}
+					</div>
+				)}
+				{loopStatus?.loop && (
+					<div className="loop-status">{getLoopLabel(loopStatus)}</div>
+				)}
 				<CSSTransition
 					nodeRef={playRef}
 					in={context?.showPlay}
@@ -471,7 +774,9 @@ export const MediaFrame: React.FC<{
 				</CSSTransition>
 				<div
 					className={`progress-bar-container ${
-						hideProgressBar ||
+						readyLink !== mediaLink ||
+						(hideProgressBar &&
+							!context?.settings?.progressBarWhenPaused) ||
 						!context?.settings?.displayProgressBar
 							? "hidden"
 							: ""
@@ -491,17 +796,17 @@ export const MediaFrame: React.FC<{
 							{formatTimestamp(currentTimestamp)}
 						</div>
 					</div>
-					<div
-						className={`progress-bar`}
-						style={{
-							width: `${progressBarWidth}%`,
-							backgroundColor:
-								context?.settings?.progressBarColor,
-						}}
-					></div>
+					<SeekBar
+						currentTime={currentTimestamp}
+						duration={maxTime}
+						color={context?.settings?.progressBarColor}
+						markers={[...(context?.noteMarkers ?? []), ...chapters]}
+						loopStatus={loopStatus}
+						onSeek={onSeek}
+					/>
 				</div>
 			</div>
-			{context?.settings?.showTranscript && (
+			{provider.supportsTranscript && showTranscript && (
 				<div className="transcript-container" ref={transcriptContainerRef}>
 					{transcriptLoading && (
 						<div className="transcript-loading">Loading transcript...</div>
@@ -511,8 +816,29 @@ export const MediaFrame: React.FC<{
 							Failed to load transcript: {transcriptError}
 						</div>
 					)}
+					{(transcriptTracks.length > 1 ||
+						(transcriptParagraphs.length > 0 && !transcriptLoading)) && (
+						<div className="transcript-toolbar">
+							<CaptionTrackSelect
+								tracks={transcriptTracks}
+								activeTrack={requestedTrack ?? transcriptTrack}
+								onSelect={(track) =>
+									setSelectedTrack({ link: transcriptLink, track })
+								}
+							/>
+							{transcriptParagraphs.length > 0 && !transcriptLoading && (
+								<TranscriptSearch
+									query={searchQuery}
+									matchCount={searchMatches.length}
+									activeIndex={activeMatchIndex}
+									onQueryChange={onSearchQueryChange}
+									onStep={stepSearchMatch}
+								/>
+							)}
+						</div>
+					)}
 					{transcriptParagraphs.length > 0 && !transcriptLoading && (
-						<div className="transcript-content">
+						<div className="transcript-content" onMouseUp={onTranscriptMouseUp}>
 							{transcriptParagraphs.map((paragraph, paragraphIndex) => (
 								<div 
 									key={paragraphIndex}
@@ -521,22 +847,63 @@ export const MediaFrame: React.FC<{
 									}`}
 									data-paragraph-index={paragraphIndex}
 								>
-									{paragraph.sentences.map((sentence, sentenceIndex) => (
-										<span 
-											key={`${paragraphIndex}-${sentenceIndex}`}
-											className={`transcript-sentence ${
-												paragraphIndex === currentParagraphIndex && 
-												sentenceIndex === currentSentenceIndex ? 'current-sentence' : ''
-											}`}
-										>
-											<span className="transcript-text">{sentence.text}</span>
-											{sentenceIndex < paragraph.sentences.length - 1 && ' '}
-										</span>
-									))}
+									{paragraph.sentences.map((sentence, sentenceIndex) => {
+										const index = paragraphStartIndexes[paragraphIndex] + sentenceIndex;
+										const isPicked =
+											!!pickedSentences &&
+											index >= pickedSentences.from &&
+											index <= pickedSentences.to;
+										return (
+											<span 
+												key={`${paragraphIndex}-${sentenceIndex}`}
+												className={`transcript-sentence ${
+													paragraphIndex === currentParagraphIndex && 
+													sentenceIndex === currentSentenceIndex ? 'current-sentence' : ''
+												} ${isPicked ? 'is-picked' : ''}`}
+												data-sentence-index={index}
+												onClick={(event) => onSentenceClick(event, index)}
+												onContextMenu={(event) => onSentenceContextMenu(event, index)}
+											>
+												<HighlightedText
+													text={sentence.text}
+													matches={
+														sentenceMatches[`${paragraphIndex}-${sentenceIndex}`] ?? []
+													}
+													activeMatch={activeMatch}
+													onSelect={(match) =>
+														selectSearchMatch(searchMatches.indexOf(match))
+													}
+												/>
+												{sentenceIndex < paragraph.sentences.length - 1 && ' '}
+											</span>
+										);
+									})}
 								</div>
 							))}
 						</div>
 					)}
+					{pickedSentences && (
+						<div className="transcript-quote-actions">
+							<span className="transcript-quote-count">
+								{getSentenceCountLabel(pickedSentences.to - pickedSentences.from + 1)}
+							</span>
+							<button
+								className="mod-cta"
+								onClick={() => onQuoteSentences(getPickedSentences(), "insert")}
+							>
+								Insert quote with timestamp range
+							</button>
+							<button onClick={() => onQuoteSentences(getPickedSentences(), "copy")}>
+								Copy with link
+							</button>
+							<button
+								aria-label="Clear selection"
+								onClick={() => setPickedSentences(null)}
+							>
+								✕
+							</button>
+						</div>
+					)}
 				</div>
 			)}
 		</div>
@@ -0,0 +1,111 @@
+import * as React from "react";
+import { formatTimestamp } from "../main";
+import type { LoopStatus } from "../app-context";
+
+export interface SeekBarMarker {
+	seconds: number;
+	label: string;
+	kind: "note" | "chapter";
+}
+
+// Clickable, draggable progress bar. Shows the time under the pointer, ticks for the
+// note's timestamps and the media's chapters, and the loop region if there is one.
+export const SeekBar: React.FC<{
+	currentTime: number;
+	duration: number;
+	color?: string;
+	markers: SeekBarMarker[];
+	loopStatus?: LoopStatus | null;
+	onSeek: (seconds: number) => void;
+}> = ({ currentTime, duration, color, markers, loopStatus, onSeek }) => {
+	const barRef = React.useRef<HTMLDivElement>(null);
+	// where the pointer is over the bar, in seconds
+	const [hoverTime, setHoverTime] = React.useState<number | null>(null);
+	// while dragging, the bar follows the pointer rather than the player
+	const [dragTime, setDragTime] = React.useState<number | null>(null);
+
+	const getTimeAt = (clientX: number) => {
+		const rect = barRef.current?.getBoundingClientRect();
+		if (!rect || !duration) return 0;
+		const position = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+		return position * duration;
+	};
+	const toPercent = (seconds: number) =>
+		duration ? `${(seconds / duration) * 100}%` : "0%";
+
+	const onPointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+		if (!duration) return;
+		event.preventDefault();
+		event.currentTarget.setPointerCapture(event.pointerId);
+		setDragTime(getTimeAt(event.clientX));
+	};
+	const onPointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+		const time = getTimeAt(event.clientX);
+		setHoverTime(time);
+		if (dragTime !== null) setDragTime(time);
+	};
+	const onPointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+		if (dragTime === null) return;
+		onSeek(getTimeAt(event.clientX));
+		setDragTime(null);
+	};
+
+	// the marker close enough to the pointer to name it in the tooltip
+	const getHoverMarker = () => {
+		if (hoverTime === null || !duration) return;
+		return markers.find(
+			(marker) => Math.abs(marker.seconds - hoverTime) / duration < 0.01
+		);
+	};
+	const hoverMarker = getHoverMarker();
+	const displayTime = dragTime ?? currentTime;
+
+	return (
+		<div
+			ref={barRef}
+			className={`seek-bar ${dragTime !== null ? "is-dragging" : ""}`}
+			onPointerDown={onPointerDown}
+			onPointerMove={onPointerMove}
+			onPointerUp={onPointerUp}
+			onPointerCancel={() => setDragTime(null)}
+			onPointerLeave={() => setHoverTime(null)}
+		>
+			<div className="seek-bar-track">
+				{loopStatus && duration > 0 && (
+					<div
+						className={`loop-region ${
+							loopStatus.end === undefined ? "is-pending" : ""
+						}`}
+						style={{
+							left: toPercent(loopStatus.start),
+							width:
+								loopStatus.end === undefined
+									? undefined
+									: toPercent(loopStatus.end - loopStatus.start),
+						}}
+					></div>
+				)}
+				<div
+					className="progress-bar"
+					style={{
+						width: toPercent(displayTime),
+						backgroundColor: color,
+					}}
+				></div>
+				{markers.map((marker, index) => (
+					<div
+						key={index}
+						className={`seek-bar-marker ${marker.kind}`}
+						style={{ left: toPercent(marker.seconds) }}
+					></div>
+				))}
+			</div>
+			{hoverTime !== null && (
+				<div className="seek-bar-tooltip" style={{ left: toPercent(hoverTime) }}>
+					{formatTimestamp(hoverTime)}
+					{hoverMarker?.label ? ` · ${hoverMarker.label}` : ""}
+				</div>
+			)}
+		</div>
+	);
+};
@@ -0,0 +1,39 @@
+import * as React from "react";
+import { getVaultLinkpath, isVaultMediaLink } from "../providers/vault-media-provider";
+
+// short label for a source: the file name for vault media, the host for urls
+const getSourceLabel = (mediaLink: string) => {
+	if (isVaultMediaLink(mediaLink)) {
+		return getVaultLinkpath(mediaLink).split("/").pop() ?? mediaLink;
+	}
+	try {
+		return new URL(mediaLink).hostname.replace(/^www\./, "");
+	} catch {
+		return mediaLink;
+	}
+};
+
+export const SourceTabs: React.FC<{
+	sources: string[];
+	activeIndex: number;
+	onSelect: (index: number) => void;
+}> = ({ sources, activeIndex, onSelect }) => {
+	if (sources.length < 2) return null;
+
+	return (
+		<div className="media-source-tabs">
+			{sources.map((source, index) => (
+				<button
+					key={index}
+					className={`media-source-tab ${
+						index === activeIndex ? "is-active" : ""
+					}`}
+					title={source}
+					onClick={() => onSelect(index)}
+				>
+					{index + 1}. {getSourceLabel(source)}
+				</button>
+			))}
+		</div>
+	);
+};
@@ -0,0 +1,126 @@
+import * as React from "react";
+import type { TranscriptParagraph } from "./media-frame";
+
+export interface TranscriptMatch {
+	paragraphIndex: number;
+	sentenceIndex: number;
+	// character range within the sentence text
+	start: number;
+	end: number;
+}
+
+// every case-insensitive occurrence of query in the transcript, in reading order
+export const findTranscriptMatches = (
+	paragraphs: TranscriptParagraph[],
+	query: string
+): TranscriptMatch[] => {
+	const needle = query.trim().toLowerCase();
+	if (!needle) return [];
+	const matches: TranscriptMatch[] = [];
+	paragraphs.forEach((paragraph, paragraphIndex) => {
+		paragraph.sentences.forEach((sentence, sentenceIndex) => {
+			const haystack = sentence.text.toLowerCase();
+			let start = haystack.indexOf(needle);
+			while (start !== -1) {
+				matches.push({
+					paragraphIndex,
+					sentenceIndex,
+					start,
+					end: start + needle.length,
+				});
+				start = haystack.indexOf(needle, start + needle.length);
+			}
+		});
+	});
+	return matches;
+};
+
+// a sentence's text with its matches marked, the active one stands out
+export const HighlightedText: React.FC<{
+	text: string;
+	matches: TranscriptMatch[];
+	activeMatch?: TranscriptMatch;
+	onSelect: (match: TranscriptMatch) => void;
+}> = ({ text, matches, activeMatch, onSelect }) => {
+	if (matches.length === 0) {
+		return <span className="transcript-text">{text}</span>;
+	}
+	const parts: React.ReactNode[] = [];
+	let position = 0;
+	matches.forEach((match, index) => {
+		parts.push(text.slice(position, match.start));
+		parts.push(
+			<mark
+				key={index}
+				className={`transcript-search-match ${
+					match === activeMatch ? "is-active" : ""
+				}`}
+				onClick={(event) => {
+					// the sentence would seek to its start otherwise
+					event.stopPropagation();
+					onSelect(match);
+				}}
+			>
+				{text.slice(match.start, match.end)}
+			</mark>
+		);
+		position = match.end;
+	});
+	parts.push(text.slice(position));
+	return <span className="transcript-text">{parts}</span>;
+};
+
+// Search box above the transcript. Enter and Shift+Enter go to the next and previous
+// match, Escape clears the search.
+export const TranscriptSearch: React.FC<{
+	query: string;
+	matchCount: number;
+	activeIndex: number;
+	onQueryChange: (query: string) => void;
+	onStep: (direction: 1 | -1) => void;
+}> = ({ query, matchCount, activeIndex, onQueryChange, onStep }) => {
+	const onKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+		if (event.key === "Enter") {
+			event.preventDefault();
+			onStep(event.shiftKey ? -1 : 1);
+		} else if (event.key === "Escape") {
+			event.preventDefault();
+			onQueryChange("");
+		}
+	};
+	const getCountLabel = () => {
+		if (!query.trim()) return "";
+		if (matchCount === 0) return "No matches";
+		return `${activeIndex + 1}/${matchCount}`;
+	};
+
+	return (
+		<div className="transcript-search">
+			<input
+				type="search"
+				className="transcript-search-input"
+				placeholder="Search transcript"
+				value={query}
+				onChange={(event) => onQueryChange(event.target.value)}
+				onKeyDown={onKeyDown}
+			/>
+			<span className="transcript-search-count">{getCountLabel()}</span>
+			<button
+				className="transcript-search-button"
+				aria-label="Previous match"
+				disabled={matchCount === 0}
+				onClick={() => onStep(-1)}
+			>
+				↑
+			</button>
+			<button
+				className="transcript-search-button"
+				aria-label="Next match"
+				disabled={matchCount === 0}
+				onClick={() => onStep(1)}
+			>
+				↓
+			</button>
+		</div>
+	);
+};
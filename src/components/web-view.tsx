@@ -14,7 +14,7 @@ interface WebViewProps {
     zoomFactor?: number;
     css?: string;
     js?: string;
-    onReady?: () => void;
+    onReady?: (frame: WebviewTag | HTMLIFrameElement) => void;
 }
 
 export const WebView: React.FC<WebViewProps> = ({
@@ -61,7 +61,9 @@ export const WebView: React.FC<WebViewProps> = ({
         const handleReady = () => {
             setIsReady(true);
             setIsLoading(false);
-            onReady?.();
+            if (frameRef.current) {
+                onReady?.(frameRef.current);
+            }
         };
 
         const handleError = (errorMsg: string) => {
@@ -0,0 +1,204 @@
+import { TFile, setIcon } from "obsidian";
+import type MediaNotesPlugin from "./main";
+import type { NotePlayerConfig } from "./main";
+
+export interface FloatingPlayerRect {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+}
+
+const MIN_WIDTH = 240;
+const MIN_HEIGHT = 160;
+// distance kept from the window edges when placing the player
+const EDGE_MARGIN = 16;
+
+// A player in an overlay window on top of the workspace, used by the "Floating"
+// split mode. It stays put while scrolling and when moving on to notes without a
+// preview_link, and remembers where it was dragged and resized to.
+export class FloatingPlayer {
+	plugin: MediaNotesPlugin;
+	// the preview note whose media is loaded
+	file: TFile | null = null;
+	playerId: string | null = null;
+	// a note whose player was closed, so it doesn't pop up again until another note is shown
+	dismissedPath: string | null = null;
+	containerEl: HTMLElement;
+	headerEl: HTMLElement;
+	playerHostEl: HTMLElement;
+
+	constructor(plugin: MediaNotesPlugin) {
+		this.plugin = plugin;
+	}
+
+	// whether the given note's media should play here instead of inline
+	shouldShowNote(file: TFile | null) {
+		return !!file && file.path !== this.dismissedPath;
+	}
+
+	showNote(
+		file: TFile,
+		mediaLinks: string[],
+		config: NotePlayerConfig,
+		startAt?: { seconds: number; autoplay: boolean }
+	) {
+		this.open();
+		this.dismissedPath = null;
+		const player = this.playerId ? this.plugin.players[this.playerId] : undefined;
+		this.file = file;
+		// same media as what's already playing, keep it going
+		if (!player || player.mediaLinks.join("\n") !== mediaLinks.join("\n")) {
+			this.clearPlayer();
+			const div = this.playerHostEl.createDiv();
+			this.playerId = this.plugin.mountPlayer(
+				div,
+				file,
+				mediaLinks,
+				config,
+				startAt
+			);
+		} else if (this.playerId) {
+			this.plugin.setPlayerFile(this.playerId, file);
+		}
+		this.renderHeader();
+	}
+
+	clearPlayer() {
+		if (!this.playerId) return;
+		this.plugin.removePlayer(this.playerId);
+		this.playerId = null;
+	}
+
+	// removes the window along with its player
+	close() {
+		this.clearPlayer();
+		this.file = null;
+		this.containerEl?.remove();
+	}
+
+	open() {
+		if (this.containerEl?.isConnected) return;
+		this.containerEl = document.body.createDiv("media-notes-floating");
+		this.headerEl = this.containerEl.createDiv("media-notes-floating-header");
+		this.playerHostEl = this.containerEl.createDiv("media-notes-floating-player");
+		const resizeHandle = this.containerEl.createDiv(
+			"media-notes-floating-resize-handle"
+		);
+		this.applyRect(this.plugin.settings.floatingPlayerRect ?? this.getDefaultRect());
+
+		this.headerEl.addEventListener("pointerdown", (event: PointerEvent) => {
+			// let the header buttons handle their own clicks
+			if ((event.target as HTMLElement).closest(".clickable-icon")) return;
+			this.trackPointer(event, (rect, dx, dy) => ({
+				...rect,
+				left: rect.left + dx,
+				top: rect.top + dy,
+			}));
+		});
+		resizeHandle.addEventListener("pointerdown", (event: PointerEvent) => {
+			this.trackPointer(event, (rect, dx, dy) => ({
+				...rect,
+				width: rect.width + dx,
+				height: rect.height + dy,
+			}));
+		});
+	}
+
+	renderHeader() {
+		if (!this.headerEl) return;
+		this.headerEl.empty();
+		const noteEl = this.headerEl.createDiv({
+			cls: "media-notes-floating-note",
+			text: this.file?.basename ?? "",
+		});
+		if (this.file) {
+			const file = this.file;
+			noteEl.addClass("is-clickable");
+			noteEl.onclick = () => {
+				this.plugin.app.workspace.openLinkText(file.path, "");
+			};
+		}
+		const closeButton = this.headerEl.createDiv({
+			cls: "clickable-icon",
+			attr: { "aria-label": "Close player" },
+		});
+		setIcon(closeButton, "x");
+		closeButton.onclick = () => {
+			this.dismissedPath = this.file?.path ?? null;
+			this.close();
+		};
+	}
+
+	getRect(): FloatingPlayerRect {
+		const { left, top, width, height } = this.containerEl.getBoundingClientRect();
+		return { left, top, width, height };
+	}
+
+	getDefaultRect(): FloatingPlayerRect {
+		const width = 480;
+		const height = 320;
+		return {
+			left: window.innerWidth - width - EDGE_MARGIN,
+			top: window.innerHeight - height - EDGE_MARGIN,
+			width,
+			height,
+		};
+	}
+
+	// keeps the window on screen, e.g after the app window was made smaller
+	applyRect(rect: FloatingPlayerRect) {
+		const width = Math.min(
+			Math.max(rect.width, MIN_WIDTH),
+			window.innerWidth - EDGE_MARGIN * 2
+		);
+		const height = Math.min(
+			Math.max(rect.height, MIN_HEIGHT),
+			window.innerHeight - EDGE_MARGIN * 2
+		);
+		const left = Math.min(
+			Math.max(rect.left, EDGE_MARGIN),
+			window.innerWidth - width - EDGE_MARGIN
+		);
+		const top = Math.min(
+			Math.max(rect.top, EDGE_MARGIN),
+			window.innerHeight - height - EDGE_MARGIN
+		);
+		this.containerEl.style.left = left + "px";
+		this.containerEl.style.top = top + "px";
+		this.containerEl.style.width = width + "px";
+		this.containerEl.style.height = height + "px";
+	}
+
+	// moves or resizes the window while the pointer is held down, then remembers the result
+	trackPointer(
+		event: PointerEvent,
+		update: (rect: FloatingPlayerRect, dx: number, dy: number) => FloatingPlayerRect
+	) {
+		event.preventDefault();
+		const target = event.currentTarget as HTMLElement;
+		const startRect = this.getRect();
+		const startX = event.clientX;
+		const startY = event.clientY;
+		target.setPointerCapture(event.pointerId);
+		// iframes and webviews would swallow the pointer events otherwise
+		this.containerEl.addClass("is-dragging");
+
+		const onMove = (moveEvent: PointerEvent) => {
+			this.applyRect(
+				update(startRect, moveEvent.clientX - startX, moveEvent.clientY - startY)
+			);
+		};
+		const onUp = async () => {
+			target.removeEventListener("pointermove", onMove);
+			target.removeEventListener("pointerup", onUp);
+			target.removeEventListener("pointercancel", onUp);
+			this.containerEl.removeClass("is-dragging");
+			this.plugin.settings.floatingPlayerRect = this.getRect();
+			await this.plugin.saveSettings();
+		};
+		target.addEventListener("pointermove", onMove);
+		target.addEventListener("pointerup", onUp);
+		target.addEventListener("pointercancel", onUp);
+	}
+}
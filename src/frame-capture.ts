@@ -0,0 +1,76 @@
+// the parts of Electron's remote module used here, Obsidian's desktop app exposes it to plugins
+interface NativeImage {
+	isEmpty(): boolean;
+	toPNG(): Uint8Array;
+}
+
+interface RemoteWebContents {
+	capturePage(rect?: {
+		x: number;
+		y: number;
+		width: number;
+		height: number;
+	}): Promise<NativeImage>;
+}
+
+const getWebContents = (): RemoteWebContents | undefined => {
+	try {
+		const electron = (
+			window as unknown as {
+				require?: (id: string) => {
+					remote?: { getCurrentWebContents(): RemoteWebContents };
+				};
+			}
+		).require?.("electron");
+		return electron?.remote?.getCurrentWebContents();
+	} catch (error) {
+		// mobile, or a desktop app without the remote module
+		return;
+	}
+};
+
+const toArrayBuffer = (bytes: Uint8Array) =>
+	bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+
+// Screenshots the region of the window el is shown in, as a PNG. Works for embeds whose
+// pixels can't be read from the page, like YouTube's iframe. Desktop only.
+export const captureElement = async (el: HTMLElement) => {
+	const webContents = getWebContents();
+	const rect = el.getBoundingClientRect();
+	if (!webContents || rect.width < 1 || rect.height < 1) return null;
+	const image = await webContents.capturePage({
+		x: Math.round(rect.left),
+		y: Math.round(rect.top),
+		width: Math.round(rect.width),
+		height: Math.round(rect.height),
+	});
+	return image.isEmpty() ? null : toArrayBuffer(image.toPNG());
+};
+
+// Draws the video's current frame at its full resolution, as a PNG. Falls back to a
+// screenshot when the video can't be read back, e.g a source from another origin.
+export const captureVideoFrame = async (video: HTMLVideoElement) => {
+	// audio, or nothing loaded yet
+	if (!video.videoWidth || !video.videoHeight) return null;
+	const canvas = document.createElement("canvas");
+	canvas.width = video.videoWidth;
+	canvas.height = video.videoHeight;
+	canvas.getContext("2d")?.drawImage(video, 0, 0);
+	try {
+		const blob = await new Promise<Blob | null>((resolve) =>
+			canvas.toBlob(resolve, "image/png")
+		);
+		return blob ? await blob.arrayBuffer() : null;
+	} catch (error) {
+		return captureElement(video);
+	}
+};
+
+// 750 -> "frame-12m30s.png", 3750 -> "frame-1h02m30s.png"
+export const getFrameFileName = (seconds: number) => {
+	const hours = Math.floor(seconds / 3600);
+	const minutes = Math.floor((seconds % 3600) / 60);
+	const pad = (value: number) => (value < 10 ? `0${value}` : `${value}`);
+	const time = hours > 0 ? `${hours}h${pad(minutes)}m` : `${minutes}m`;
+	return `frame-${time}${pad(Math.floor(seconds % 60))}s.png`;
+};
@@ -0,0 +1,150 @@
+import { Modal, Notice, Setting } from "obsidian";
+import type MediaNotesPlugin from "./main";
+import { formatTimestamp } from "./main";
+import {
+	TranscriptSentence,
+	groupSentencesIntoParagraphs,
+} from "./components/media-frame";
+import type { Chapter } from "./providers/media-provider";
+
+export interface TranscriptInsertOptions {
+	sentencesPerParagraph: number;
+	// a heading before each chapter's paragraphs, when the media has chapters
+	chapterHeadings: boolean;
+	// write to a "<title> transcript" note and link to it, instead of into the note
+	separateNote: boolean;
+}
+
+// Formats the transcript as paragraphs, each starting with a timestamp link to where
+// it's spoken. linkTarget is the url of those links, e.g #src=2 for a note's second source.
+export const formatTranscriptMarkdown = (
+	sentences: TranscriptSentence[],
+	chapters: Chapter[],
+	options: TranscriptInsertOptions,
+	linkTarget = ""
+) => {
+	const sections: { title?: string; sentences: TranscriptSentence[] }[] = [];
+	if (options.chapterHeadings && chapters.length > 0) {
+		const getSentences = (start: number, end: number) =>
+			sentences.filter(
+				(sentence) =>
+					sentence.startOffset / 1000 >= start && sentence.startOffset / 1000 < end
+			);
+		// whatever is said before the first chapter starts
+		sections.push({ sentences: getSentences(0, chapters[0].startSeconds) });
+		chapters.forEach((chapter, index) => {
+			const next = chapters[index + 1];
+			sections.push({
+				title: chapter.title,
+				sentences: getSentences(
+					chapter.startSeconds,
+					next ? next.startSeconds : Infinity
+				),
+			});
+		});
+	} else {
+		sections.push({ sentences });
+	}
+
+	const blocks: string[] = [];
+	sections.forEach((section) => {
+		if (section.sentences.length === 0) return;
+		if (section.title) blocks.push(`## ${section.title}`);
+		groupSentencesIntoParagraphs(
+			section.sentences,
+			options.sentencesPerParagraph
+		).forEach((paragraph) => {
+			const text = paragraph.sentences.map((sentence) => sentence.text).join(" ");
+			blocks.push(
+				`[${formatTimestamp(paragraph.startOffset / 1000)}](${linkTarget}) ${text}`
+			);
+		});
+	});
+	return blocks.join("\n\n") + "\n";
+};
+
+// Asks how to lay out the transcript before the plugin writes it out, and remembers
+// the choices for next time.
+export class InsertTranscriptModal extends Modal {
+	plugin: MediaNotesPlugin;
+	options: TranscriptInsertOptions;
+	hasChapters: boolean;
+	onSubmit: (options: TranscriptInsertOptions) => Promise<void>;
+
+	constructor(
+		plugin: MediaNotesPlugin,
+		hasChapters: boolean,
+		onSubmit: (options: TranscriptInsertOptions) => Promise<void>
+	) {
+		super(plugin.app);
+		this.plugin = plugin;
+		this.options = { ...plugin.settings.transcriptInsertOptions };
+		this.hasChapters = hasChapters;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		this.titleEl.setText("Insert transcript");
+		const { contentEl } = this;
+
+		new Setting(contentEl)
+			.setName("Sentences per paragraph")
+			.addSlider((slider) =>
+				slider
+					.setLimits(1, 20, 1)
+					.setDynamicTooltip()
+					.setValue(this.options.sentencesPerParagraph)
+					.onChange((value) => {
+						this.options.sentencesPerParagraph = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Chapter headings")
+			.setDesc(
+				this.hasChapters
+					? "Start each chapter with a heading"
+					: "This media has no chapters"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.options.chapterHeadings)
+					.setDisabled(!this.hasChapters)
+					.onChange((value) => {
+						this.options.chapterHeadings = value;
+					})
+			);
+
+		new Setting(contentEl)
+			.setName("Separate note")
+			.setDesc(
+				"Write the transcript to a \"<title> transcript\" note next to this one and insert a link to it"
+			)
+			.addToggle((toggle) =>
+				toggle.setValue(this.options.separateNote).onChange((value) => {
+					this.options.separateNote = value;
+				})
+			);
+
+		new Setting(contentEl).addButton((button) =>
+			button
+				.setButtonText("Insert transcript")
+				.setCta()
+				.onClick(async () => {
+					this.plugin.settings.transcriptInsertOptions = this.options;
+					await this.plugin.saveSettings();
+					this.close();
+					try {
+						await this.onSubmit(this.options);
+					} catch (error) {
+						console.error("Failed to insert the transcript:", error);
+						new Notice(`Failed to insert the transcript: ${error.message ?? error}`);
+					}
+				})
+		);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
@@ -1,20 +1,71 @@
-import { createRoot } from "react-dom/client";
-import { MediaFrame, getVideoId, isYouTubeUrl } from "./components/media-frame";
-import { AppProvider } from "./app-context";
+import { Root, createRoot } from "react-dom/client";
+import {
+	MediaFrame,
+	TranscriptParagraph,
+	TranscriptSentence,
+	findTranscriptPosition,
+} from "./components/media-frame";
+import { AppProvider, LoopStatus } from "./app-context";
+import type { SeekBarMarker } from "./components/seek-bar";
 import {
 	App,
 	Editor,
 	MarkdownView,
+	Notice,
+	ObsidianProtocolData,
 	Plugin,
 	PluginSettingTab,
 	Setting,
+	TFile,
 	View,
+	debounce,
+	moment,
+	normalizePath,
 	parseYaml,
 } from "obsidian";
 import * as React from "react";
-import YouTube from "react-youtube";
-import { createClickHandlerPlugin } from "./viewPlugin";
+import {
+	createClickHandlerPlugin,
+	getTimestampLinks,
+	isLoopClick,
+	isTimestampLinkText,
+	timestampRangeRegex,
+} from "./viewPlugin";
 import { EventEmitter } from "events";
+import {
+	MediaController,
+	MediaProvider,
+	MediaProviderRegistry,
+	getNextPlaybackRate,
+} from "./providers/media-provider";
+import { youTubeProvider } from "./providers/youtube-provider";
+import { createVaultMediaProvider } from "./providers/vault-media-provider";
+import { vimeoProvider } from "./providers/vimeo-provider";
+import { createWebVideoProvider } from "./providers/web-video-provider";
+import { MEDIA_PLAYER_VIEW_TYPE, MediaPlayerView } from "./media-player-view";
+import {
+	TIMESTAMP_OUTLINE_VIEW_TYPE,
+	TimestampOutlineView,
+	getNoteTimestamps,
+} from "./timestamp-outline-view";
+import { FloatingPlayer, FloatingPlayerRect } from "./floating-player";
+import { createSplitter, splitterClass } from "./splitter";
+import { ShiftTimestampsModal } from "./shift-timestamps-modal";
+import { captureElement, getFrameFileName } from "./frame-capture";
+import { TranscriptCache } from "./transcript-cache";
+import {
+	InsertTranscriptModal,
+	TranscriptInsertOptions,
+	formatTranscriptMarkdown,
+} from "./insert-transcript-modal";
+import {
+	NamedTemplate,
+	SAMPLE_TEMPLATE_VARIABLES,
+	TEMPLATE_VARIABLES,
+	TemplateVariables,
+	getTemplateVariableNames,
+	renderTemplate,
+} from "./timestamp-template";
 
 export interface CssRule {
 	url: string;
@@ -26,25 +77,58 @@ export interface MediaNotesPluginSettings {
 	verticalPlayerHeight: number;
 	horizontalPlayerWidth: number;
 	timestampTemplate: string;
+	// extra templates, each with its own insert command
+	timestampTemplates: NamedTemplate[];
+	// for inserting transcript sentences and paragraphs, {quote} is the transcript text
+	quoteTemplate: string;
 	timestampOffsetSeconds: number;
 	backgroundColor: string;
 	progressBarColor: string;
 	displayProgressBar: boolean;
+	// otherwise the progress bar is only shown while playing
+	progressBarWhenPaused: boolean;
 	displayTimestamp: boolean;
 	pauseOnTimestampInsert: boolean;
-	defaultSplitMode: "Horizontal" | "Vertical";
+	defaultSplitMode: "Horizontal" | "Vertical" | "Floating";
+	// where the player was last dragged and resized to in Floating mode
+	floatingPlayerRect?: FloatingPlayerRect;
 	showTranscript: boolean;
 	transcriptLanguage: string;
+	// selecting a transcript search match seeks the player to it
+	seekToTranscriptMatch: boolean;
+	// downloaded transcripts kept in the plugin folder, 0 turns the cache off
+	transcriptCacheSize: number;
+	// days before a cached transcript is downloaded again, 0 keeps it until refreshed
+	transcriptCacheDays: number;
+	// last choices in the "Insert transcript" dialog
+	transcriptInsertOptions: TranscriptInsertOptions;
+	// passes through an A-B loop before it stops, 0 loops until it's cleared
+	loopRepeatCount: number;
+	// added to the playback rate after each pass through a loop, 0 keeps the rate
+	loopSpeedStep: number;
 	// Web view settings
+	// finds the <video> on web pages so hotkeys and timestamps control it
+	webVideoControl: boolean;
 	webViewUserAgent: string;
 	webViewZoomFactor: number;
 	webViewProfileKey: string;
 	urlCssRules: CssRule[];
+	// player sizes dragged with the splitter, by note path. Percentages like the defaults above
+	playerSizes: {
+		[notePath: string]: {
+			// in a vertical split
+			width?: number;
+			// in a horizontal split
+			height?: number;
+		};
+	};
 	mediaData: {
 		[id: string]: {
 			mediaLink: string;
 			lastUpdated: string;
 			lastTimestampSeconds: number;
+			// for playlists, the item that was playing
+			playlistIndex?: number;
 		};
 	};
 }
@@ -56,18 +140,33 @@ const DEFAULT_SETTINGS: MediaNotesPluginSettings = {
 	defaultSplitMode: "Vertical",
 	pauseOnTimestampInsert: false,
 	displayProgressBar: true,
+	progressBarWhenPaused: false,
 	displayTimestamp: true,
 	timestampOffsetSeconds: 6,
 	backgroundColor: "#000000",
 	progressBarColor: "#FF0000",
 	timestampTemplate: "[{ts}]({link})\n",
+	timestampTemplates: [],
+	quoteTemplate: "> {quote}\n> [{ts}]({link})\n\n",
 	showTranscript: true,
 	transcriptLanguage: "en",
+	seekToTranscriptMatch: false,
+	transcriptCacheSize: 200,
+	transcriptCacheDays: 30,
+	transcriptInsertOptions: {
+		sentencesPerParagraph: 3,
+		chapterHeadings: true,
+		separateNote: false,
+	},
+	loopRepeatCount: 0,
+	loopSpeedStep: 0,
 	// Web view defaults
+	webVideoControl: false,
 	webViewUserAgent: "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
 	webViewZoomFactor: 1.0,
 	webViewProfileKey: "media-notes-web",
 	urlCssRules: [],
+	playerSizes: {},
 	mediaData: {},
 };
 
@@ -93,7 +192,7 @@ export const formatTimestamp = (timestamp: number | undefined) => {
 	}${formattedMinutes}:${formattedSeconds}`;
 };
 
-const convertTimestampToSeconds = (timestamp: string) => {
+export const convertTimestampToSeconds = (timestamp: string) => {
 	const timestampParts = timestamp.split(":").map(Number);
 	let seconds = 0;
 	if (timestampParts.length === 3) {
@@ -109,63 +208,260 @@ const convertTimestampToSeconds = (timestamp: string) => {
 	return seconds;
 };
 
-const getPreviewLinkFromFrontmatter = (frontmatter: Record<string, string>) => {
-	return frontmatter["preview_link"] || frontmatter["media_link"] || frontmatter["media"];
+const mediaNotesHostClass = "media-notes-host";
+
+// the player lives in whichever of the view's modes is showing
+const getPlayerHost = (markdownView: MarkdownView) =>
+	markdownView.containerEl.querySelector<HTMLElement>(
+		markdownView.getMode() === "preview"
+			? ".markdown-reading-view"
+			: ".markdown-source-view"
+	);
+
+const getPlaylistItemMediaId = (playlistMediaId: string, itemId: string) =>
+	`${playlistMediaId}/${itemId}`;
+
+// preview_link can be a single link or a list of them, one per source
+export const getPreviewLinksFromFrontmatter = (
+	frontmatter: Record<string, unknown>
+): string[] => {
+	const value =
+		frontmatter["preview_link"] || frontmatter["media_link"] || frontmatter["media"];
+	const values = Array.isArray(value) ? value : [value];
+	return values
+		.map((link) =>
+			// an unquoted [[file.mp4]] in yaml parses as a nested list
+			Array.isArray(link) && link.length === 1 ? `[[${link[0]}]]` : link
+		)
+		.filter((link): link is string => typeof link === "string" && !!link.trim())
+		.map((link) => link.trim());
+};
+
+interface PlayerRange {
+	start: number;
+	end: number;
+	loop: boolean;
+	// whether playback has got into the segment yet, seeking and loading take a moment
+	reached: boolean;
+	// completed passes through a loop
+	passes: number;
+}
+
+// Per-note overrides of the plugin settings, from preview_* frontmatter properties
+export interface NotePlayerConfig {
+	split?: MediaNotesPluginSettings["defaultSplitMode"];
+	// percentage: the player's width in a vertical split, its height in a horizontal one
+	size?: number;
+	// where to start when there's no saved position
+	startSeconds?: number;
+	// playback pauses once it gets here
+	endSeconds?: number;
+	speed?: number;
+	// false hides the transcript, a string shows it in that language
+	transcript?: boolean | string;
+	autoplay?: boolean;
+}
+
+// seconds, or a timestamp like 1:02:03
+export const parseTimeValue = (value: unknown) => {
+	if (typeof value === "number") return value;
+	if (typeof value === "string" && /^\d+(:\d+){0,2}$/.test(value.trim())) {
+		return convertTimestampToSeconds(value.trim());
+	}
+	return undefined;
+};
+
+const parseBooleanValue = (value: unknown) => {
+	if (typeof value === "boolean") return value;
+	const normalized = String(value).trim().toLowerCase();
+	if (["on", "true", "yes"].includes(normalized)) return true;
+	if (["off", "false", "no"].includes(normalized)) return false;
+	return undefined;
+};
+
+export const getNotePlayerConfig = (
+	frontmatter: Record<string, unknown>
+): NotePlayerConfig => {
+	const config: NotePlayerConfig = {};
+
+	const split = String(frontmatter["preview_split"] ?? "").trim().toLowerCase();
+	if (split === "vertical") config.split = "Vertical";
+	if (split === "horizontal") config.split = "Horizontal";
+	if (split === "floating") config.split = "Floating";
+
+	// 40 or "40%"
+	const size = parseFloat(String(frontmatter["preview_size"]));
+	if (!isNaN(size)) config.size = Math.min(Math.max(size, 5), 95);
+
+	config.startSeconds = parseTimeValue(frontmatter["preview_start"]);
+	config.endSeconds = parseTimeValue(frontmatter["preview_end"]);
+
+	const speed = parseFloat(String(frontmatter["preview_speed"]));
+	if (speed > 0) config.speed = speed;
+
+	const transcript = frontmatter["preview_transcript"];
+	if (transcript !== undefined && transcript !== null) {
+		// yes and no aren't toggles here, "no" is Norwegian's language code
+		const isToggle =
+			typeof transcript === "boolean" ||
+			/^(on|off|true|false)$/i.test(String(transcript).trim());
+		config.transcript = isToggle
+			? parseBooleanValue(transcript)
+			: String(transcript).trim();
+	}
+
+	if (frontmatter["preview_autoplay"] !== undefined) {
+		config.autoplay = parseBooleanValue(frontmatter["preview_autoplay"]);
+	}
+
+	// drop the unset properties, so configs can be compared
+	return Object.fromEntries(
+		Object.entries(config).filter(([, value]) => value !== undefined)
+	) as NotePlayerConfig;
 };
 
 export default class MediaNotesPlugin extends Plugin {
 	settings: MediaNotesPluginSettings;
 
+	mediaProviders: MediaProviderRegistry;
+
+	floatingPlayer: FloatingPlayer;
+
+	// start of the range being marked with the mark in/out commands
+	markIn?: { playerId: string; seconds: number };
+
+	// commands added for the named timestamp templates
+	templateCommandIds: string[] = [];
+
+	transcriptCache: TranscriptCache;
+
 	players: {
 		[id: string]: {
-			ytRef: React.RefObject<YouTube>;
+			// the note the player belongs to
+			file: TFile | null;
+			controllerRef: React.MutableRefObject<MediaController | null>;
+			provider?: MediaProvider;
+			// the source currently shown, one of mediaLinks
 			mediaLink: string;
+			mediaLinks: string[];
+			sourceIndex: number;
+			config: NotePlayerConfig;
+			transcriptRef: React.MutableRefObject<TranscriptParagraph[]>;
+			// segment being played from a range link or A-B loop, see checkPlayerRange
+			range?: PlayerRange;
+			// set with "Set loop start", waiting for the loop end
+			loopStart?: number;
+			// the note's timestamps for the current source, shown on the seek bar
+			noteMarkers: SeekBarMarker[];
 			eventEmitter: EventEmitter;
+			root: Root;
+			// the move in progress, see movePlayer
+			moving?: Promise<void>;
 		};
 	};
 
-	getActiveViewYoutubePlayer = (view: View) => {
+	getMediaPlayerView = () => {
+		const leaf = this.app.workspace.getLeavesOfType(MEDIA_PLAYER_VIEW_TYPE)[0];
+		return leaf?.view instanceof MediaPlayerView ? leaf.view : undefined;
+	};
+
+	getActiveViewPlayerId = (view: View) => {
 		// const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
 		if (!view) return;
 		const existingPlayer = view.containerEl.querySelector(
 			"." + mediaNotesContainerClass
 		);
-		if (!existingPlayer) return;
-		const playerId = existingPlayer.getAttribute("data-player-id") ?? "";
-		const player = this.players[playerId];
-		if (!player) return null;
-		return player;
+		// notes without their own player control the separate player pane or the floating player
+		if (!existingPlayer) {
+			return (
+				this.getMediaPlayerView()?.playerId ??
+				this.floatingPlayer.playerId ??
+				undefined
+			);
+		}
+		return existingPlayer.getAttribute("data-player-id") ?? "";
+	};
+
+	// returns the active view's player along with its controller, if its media can be controlled
+	getActiveViewMediaController = (view: View) => {
+		const playerId = this.getActiveViewPlayerId(view);
+		const player = playerId !== undefined ? this.players[playerId] : undefined;
+		const controller = player?.controllerRef.current;
+		if (playerId === undefined || !player || !controller) return;
+		return { playerId, player, controller };
 	};
 
 	// saves the timestamp of the player into settings, by media link
 	savePlayerTimestamp = (playerId: string) => {
 		const player = this.players[playerId];
-		if (!player) return;
-		
-		// Only save timestamps for YouTube videos
-		if (isYouTubeUrl(player.mediaLink)) {
-			player.ytRef.current?.internalPlayer
-				?.getCurrentTime()
-				.then((timestamp: number) => {
-					const mediaId = getVideoId(player.mediaLink);
-					if (!mediaId) return;
-					this.settings.mediaData[mediaId] = {
-						mediaLink: player.mediaLink,
-						lastUpdated: new Date().toISOString(),
-						lastTimestampSeconds: timestamp,
-					};
-					this.saveSettings();
-					this.loadSettings();
-				});
-		}
+		const provider = player?.provider;
+		const controller = player?.controllerRef.current;
+		if (!player || !provider || !controller) return;
+		// the player may switch to another source before this resolves
+		const mediaLink = player.mediaLink;
+
+		Promise.all([
+			controller.getCurrentTime(),
+			controller.getPlaylistPosition?.(),
+			controller.getCurrentItemId?.(),
+		]).then(([timestamp, playlistPosition, itemId]) => {
+			const mediaId = provider.getMediaId(mediaLink);
+			if (!mediaId) return;
+			const lastUpdated = new Date().toISOString();
+			this.settings.mediaData[mediaId] = {
+				mediaLink: mediaLink,
+				lastUpdated,
+				lastTimestampSeconds: timestamp,
+				playlistIndex: playlistPosition?.index,
+			};
+			// playlists also remember each video's own position
+			if (itemId) {
+				this.settings.mediaData[getPlaylistItemMediaId(mediaId, itemId)] = {
+					mediaLink: mediaLink,
+					lastUpdated,
+					lastTimestampSeconds: timestamp,
+				};
+			}
+			this.saveSettings();
+			this.loadSettings();
+		});
 	};
 
 	renderPlayerInView = (markdownView: MarkdownView) => {
 		// @ts-ignore TS2339
 		const frontmatter = (parseYaml(markdownView.rawFrontmatter) ??
-			{}) as Record<string, string>;
+			{}) as Record<string, unknown>;
+		const mediaLinks = getPreviewLinksFromFrontmatter(frontmatter);
+		const config = getNotePlayerConfig(frontmatter);
+		const playerView = this.getMediaPlayerView();
+		if (
+			mediaLinks.length > 0 &&
+			playerView &&
+			markdownView.file &&
+			playerView.shouldShowNote(markdownView.file)
+		) {
+			// the note's media plays in the separate player pane instead
+			this.removePlayerFromView(markdownView);
+			playerView.showNote(markdownView.file, mediaLinks, config);
+			return;
+		}
+		const splitMode = config.split ?? this.settings.defaultSplitMode;
+		if (mediaLinks.length > 0 && splitMode === "Floating") {
+			this.removePlayerFromView(markdownView);
+			if (
+				markdownView.file &&
+				this.floatingPlayer.shouldShowNote(markdownView.file)
+			) {
+				this.floatingPlayer.showNote(markdownView.file, mediaLinks, config);
+			}
+			return;
+		}
+		// switched away from Floating mode
+		if (mediaLinks.length > 0) {
+			this.floatingPlayer.close();
+		}
 		// if there's a preview_link
-		if (frontmatter && getPreviewLinkFromFrontmatter(frontmatter)) {
+		if (mediaLinks.length > 0) {
 			const container = markdownView.containerEl;
 			const existingPlayerComponent = container.querySelector(
 				"." + mediaNotesContainerClass
@@ -176,132 +472,1058 @@ export default class MediaNotesPlugin extends Plugin {
 					existingPlayerComponent.getAttribute("data-player-id") ??
 					"";
 				const player = this.players[playerId];
-				// If a player state object exists for this media link, don't re-render
+				// If a player state object exists for these media links, don't re-render
 				if (
 					player &&
-					player.mediaLink ===
-						getPreviewLinkFromFrontmatter(frontmatter)
+					player.mediaLinks.join("\n") === mediaLinks.join("\n")
 				) {
+					// but follow the view when it switches between editing and reading mode
+					const host = getPlayerHost(markdownView);
+					if (host && existingPlayerComponent.parentElement !== host) {
+						void this.movePlayer(playerId, host);
+					}
+					// the rest of the config applies the next time the media loads
+					if (JSON.stringify(player.config) !== JSON.stringify(config)) {
+						player.config = config;
+						this.applyPlayerLayout(
+							markdownView,
+							existingPlayerComponent as HTMLElement,
+							splitMode,
+							config
+						);
+					}
 					return;
 				}
 				// remove the existing player
-				existingPlayerComponent.remove();
-				this.savePlayerTimestamp(playerId);
-				delete this.players[playerId];
+				this.removePlayer(playerId);
 			}
 
 			const div = document.createElement("div");
-			const uniqueId =
-				Math.random().toString(36).substring(2, 15) +
-				Math.random().toString(36).substring(2, 15);
-
-			div.className = mediaNotesContainerClass;
-			// name is important - matches data-player-id in getActiveViewYoutubePlayer
-			div.dataset.playerId = uniqueId;
 			div.style.background = this.settings.backgroundColor;
-			const markdownSourceview = container.querySelector(
-				".markdown-source-view"
-			);
-			if (this.settings.defaultSplitMode === "Vertical") {
-				div.style.width = this.settings.horizontalPlayerWidth + "%";
-				container.classList.add(mediaParentContainerVerticalClass);
-			} else {
-				container.classList.remove(mediaParentContainerVerticalClass);
-				div.style.height = this.settings.verticalPlayerHeight + "%";
-			}
+			const host = getPlayerHost(markdownView);
+			this.applyPlayerLayout(markdownView, div, splitMode, config);
+
+			if (!host) return;
+			host.prepend(div);
+			host.classList.add(mediaNotesHostClass);
+
+			const file = markdownView.file;
+			const playerId = this.mountPlayer(div, file, mediaLinks, config);
+			createSplitter(div, {
+				isVertical: () =>
+					container.classList.contains(mediaParentContainerVerticalClass),
+				onResizeEnd: (percent, vertical) => {
+					if (!file) return;
+					// notes that set preview_size keep it up to date instead
+					if (this.players[playerId]?.config.size !== undefined) {
+						void this.app.fileManager.processFrontMatter(
+							file,
+							(frontmatter) => {
+								frontmatter["preview_size"] = percent;
+							}
+						);
+						return;
+					}
+					this.settings.playerSizes[file.path] = {
+						...this.settings.playerSizes[file.path],
+						[vertical ? "width" : "height"]: percent,
+					};
+					void this.saveSettings();
+				},
+			});
+		} else {
+			// if there's no preview_link, cleanup
+			this.removePlayerFromView(markdownView);
+		}
+	};
 
-			if (!markdownSourceview) return;
-			markdownSourceview.prepend(div);
+	// turns div into a player for the given sources, returns the new player's id
+	mountPlayer = (
+		div: HTMLElement,
+		file: TFile | null,
+		mediaLinks: string[],
+		config: NotePlayerConfig,
+		startAt?: { seconds: number; autoplay: boolean }
+	) => {
+		const uniqueId =
+			Math.random().toString(36).substring(2, 15) +
+			Math.random().toString(36).substring(2, 15);
+
+		div.classList.add(mediaNotesContainerClass);
+		// name is important - matches data-player-id in getActiveViewPlayerId
+		div.dataset.playerId = uniqueId;
+
+		this.players[uniqueId] = {
+			file,
+			controllerRef: { current: null },
+			mediaLink: mediaLinks[0],
+			mediaLinks,
+			sourceIndex: 0,
+			config,
+			transcriptRef: { current: [] },
+			noteMarkers: [],
+			eventEmitter: new EventEmitter(),
+			root: createRoot(div),
+		};
+		this.renderPlayerSource(uniqueId, 0, startAt);
+		void this.updatePlayerMarkers(uniqueId);
+		return uniqueId;
+	};
 
-			const mediaLink = getPreviewLinkFromFrontmatter(frontmatter);
-			const ytRef = React.createRef<YouTube>();
-			const eventEmitter = new EventEmitter();
-			this.players[uniqueId] = {
-				ytRef,
-				mediaLink: mediaLink,
-				eventEmitter,
-			};
+	// Reads the timestamps of the player's note for its seek bar, keeping the ones for
+	// the source that's playing. Uses the open note if there is one, it may be unsaved.
+	updatePlayerMarkers = async (playerId: string) => {
+		const file = this.players[playerId]?.file;
+		if (!file) return;
+		const markdownView = this.getOpenNoteView(file);
+		const text = markdownView
+			? markdownView.getViewData()
+			: await this.app.vault.cachedRead(file);
 
-			// Initialize timestamp and autoplay for YouTube videos only
-			let initSeconds = 0;
-			let autoplay = false;
-			
-			if (isYouTubeUrl(mediaLink)) {
-				const mediaId = getVideoId(mediaLink);
-				const mediaData =
-					(mediaId && this.settings.mediaData[mediaId]) ||
-					this.settings.mediaData[mediaLink];
-
-				// extract the url param ts from the media link for YouTube
-				try {
-					const mediaLinkUrl = new URL(mediaLink);
-					const mediaLinkParams = new URLSearchParams(mediaLinkUrl.search);
-					const mediaLinkTs = mediaLinkParams.get("t");
-					initSeconds =
-						mediaData?.lastTimestampSeconds ?? (mediaLinkTs ? Number(mediaLinkTs) : 0);
-
-					// If the initial seconds came from the mediaLink, autoplay
-					if (mediaLinkTs && Number(initSeconds) === Number(mediaLinkTs)) {
-						autoplay = true;
-					}
-				} catch (error) {
-					console.warn("Error parsing YouTube URL:", error);
-					initSeconds = 0;
-				}
-			}
+		const player = this.players[playerId];
+		if (!player) return;
+		player.noteMarkers = getNoteTimestamps(text)
+			.filter((entry) => {
+				const sourceIndex = this.getLinkSourceIndex(
+					player.mediaLinks,
+					entry.link.target
+				);
+				return sourceIndex === undefined || sourceIndex === player.sourceIndex;
+			})
+			.map((entry) => ({
+				seconds: entry.seconds,
+				label: entry.text,
+				kind: "note",
+			}));
+		player.eventEmitter.emit("markersUpdated", player.noteMarkers);
+	};
 
-			const root = createRoot(div);
-			root.render(
-				<>
-					<AppProvider
-						settingsParam={this.settings}
-						eventEmitter={eventEmitter}
-					>
-						<MediaFrame
-							mediaLink={String(mediaLink)}
-							ytRef={ytRef}
-							initSeconds={Math.round(initSeconds)}
-							autoplay={autoplay}
-						/>
-					</AppProvider>
-				</>
+	// a markdown view the note is open in, if any
+	getOpenNoteView = (file: TFile) =>
+		this.app.workspace
+			.getLeavesOfType("markdown")
+			.map((leaf) => leaf.view)
+			.find(
+				(view): view is MarkdownView =>
+					view instanceof MarkdownView && view.file?.path === file.path
 			);
+
+	// points an existing player at another note with the same media, e.g in the player pane
+	setPlayerFile = (playerId: string, file: TFile) => {
+		const player = this.players[playerId];
+		if (!player || player.file?.path === file.path) return;
+		player.file = file;
+		void this.updatePlayerMarkers(playerId);
+	};
+
+	// saves the player's timestamp and removes it
+	removePlayer = (playerId: string) => {
+		const div = document.querySelector(
+			`.${mediaNotesContainerClass}[data-player-id="${playerId}"]`
+		);
+		this.savePlayerTimestamp(playerId);
+		// stops the player and its polling, and runs the components' cleanups
+		this.players[playerId]?.root.unmount();
+		delete this.players[playerId];
+		div?.parentElement?.classList.remove(mediaNotesHostClass);
+		div?.remove();
+		document
+			.querySelector(`.${splitterClass}[data-player-id="${playerId}"]`)
+			?.remove();
+	};
+
+	// the note's own player size from preview_size or the splitter, otherwise the defaults
+	getPlayerSize = (file: TFile | null, config?: NotePlayerConfig) => {
+		const noteSize = file ? this.settings.playerSizes[file.path] : undefined;
+		return {
+			width:
+				config?.size ?? noteSize?.width ?? this.settings.horizontalPlayerWidth,
+			height:
+				config?.size ?? noteSize?.height ?? this.settings.verticalPlayerHeight,
+		};
+	};
+
+	// sizes the player and splits the view for the given split mode
+	applyPlayerLayout = (
+		markdownView: MarkdownView,
+		div: HTMLElement,
+		splitMode: MediaNotesPluginSettings["defaultSplitMode"],
+		config: NotePlayerConfig
+	) => {
+		const container = markdownView.containerEl;
+		const size = this.getPlayerSize(markdownView.file, config);
+		if (splitMode === "Vertical") {
+			div.style.width = size.width + "%";
+			div.style.height = "";
+			container.classList.add(mediaParentContainerVerticalClass);
 		} else {
-			// if there's no preview_link, cleanup
-			const container = markdownView.containerEl;
-			// cleanup existing players, and save timestamp
-			const div = container.querySelector("." + mediaNotesContainerClass);
-			if (div) {
-				// unmount
-				const playerId = div.getAttribute("data-player-id") ?? "";
-				this.savePlayerTimestamp(playerId);
-				delete this.players[playerId];
-				div.remove();
+			container.classList.remove(mediaParentContainerVerticalClass);
+			div.style.width = "";
+			div.style.height = size.height + "%";
+		}
+	};
+
+	removePlayerFromView = (markdownView: MarkdownView) => {
+		const div = markdownView.containerEl.querySelector(
+			"." + mediaNotesContainerClass
+		);
+		if (!div) return;
+		this.removePlayer(div.getAttribute("data-player-id") ?? "");
+	};
+
+	// moves the active note's media into the separate player pane, continuing from the current time
+	openPlayerView = async (markdownView: MarkdownView) => {
+		const file = markdownView.file;
+		const playerId = this.getActiveViewPlayerId(markdownView);
+		const player = playerId !== undefined ? this.players[playerId] : undefined;
+		if (!file || !player) return;
+		const { mediaLinks, config } = player;
+		const controller = player.controllerRef.current;
+		let startAt: { seconds: number; autoplay: boolean } | undefined;
+		if (controller) {
+			startAt = {
+				seconds: await controller.getCurrentTime(),
+				autoplay: await controller.isPlaying(),
+			};
+		}
+
+		let playerView = this.getMediaPlayerView();
+		if (!playerView) {
+			const leaf = this.app.workspace.getRightLeaf(false);
+			// keep the focus in the note
+			await leaf.setViewState({ type: MEDIA_PLAYER_VIEW_TYPE, active: false });
+			playerView = this.getMediaPlayerView();
+		}
+		if (!playerView) return;
+		this.app.workspace.revealLeaf(playerView.leaf);
+		this.removePlayerFromView(markdownView);
+		playerView.showNote(file, mediaLinks, config, startAt);
+	};
+
+	// renders one of the player's sources, optionally starting it at a given time
+	renderPlayerSource = (
+		playerId: string,
+		sourceIndex: number,
+		startAt?: { seconds: number; autoplay: boolean }
+	) => {
+		const player = this.players[playerId];
+		if (!player) return;
+		const mediaLink = player.mediaLinks[sourceIndex];
+		const provider = this.mediaProviders.getProvider(mediaLink);
+		// each source gets its own controller, the previous player clears its ref on unmount
+		const controllerRef: React.MutableRefObject<MediaController | null> =
+			{ current: null };
+		Object.assign(player, { controllerRef, provider, mediaLink, sourceIndex });
+
+		// Initialize timestamp and autoplay for controllable media only
+		let initSeconds = 0;
+		let autoplay = false;
+		let initPlaylistIndex: number | undefined;
+		let getItemStartSeconds: ((itemId: string) => number | undefined) | undefined;
+
+		if (provider) {
+			const mediaId = provider.getMediaId(mediaLink);
+			const mediaData =
+				(mediaId && this.settings.mediaData[mediaId]) ||
+				this.settings.mediaData[mediaLink];
+			initPlaylistIndex = mediaData?.playlistIndex;
+			getItemStartSeconds = (itemId) =>
+				mediaId
+					? this.settings.mediaData[getPlaylistItemMediaId(mediaId, itemId)]
+							?.lastTimestampSeconds
+					: undefined;
+
+			// extract the start time from the media link, e.g the t param for YouTube
+			const mediaLinkTs = provider.getStartSeconds(mediaLink);
+			initSeconds =
+				mediaData?.lastTimestampSeconds ??
+				player.config.startSeconds ??
+				mediaLinkTs ??
+				0;
+
+			// If the initial seconds came from the mediaLink, autoplay
+			if (mediaLinkTs && Number(initSeconds) === Number(mediaLinkTs)) {
+				autoplay = true;
+			}
+			autoplay = player.config.autoplay ?? autoplay;
+			if (startAt) {
+				initSeconds = startAt.seconds;
+				autoplay = startAt.autoplay;
 			}
 		}
+
+		player.root.render(
+			<>
+				<AppProvider
+					settingsParam={this.settings}
+					eventEmitter={player.eventEmitter}
+					getNoteMarkers={() => player.noteMarkers}
+				>
+					<MediaFrame
+						key={sourceIndex}
+						mediaLink={String(mediaLink)}
+						provider={provider}
+						controllerRef={controllerRef}
+						initSeconds={Math.round(initSeconds)}
+						initPlaylistIndex={initPlaylistIndex}
+						getItemStartSeconds={getItemStartSeconds}
+						autoplay={autoplay}
+						sources={player.mediaLinks}
+						sourceIndex={sourceIndex}
+						noteConfig={player.config}
+						transcriptRef={player.transcriptRef}
+						onQuoteSentences={(sentences, action) =>
+							this.quoteTranscriptSentences(playerId, sentences, action)
+						}
+						getTranscript={this.transcriptCache.getTranscript}
+						onSelectSource={(index) =>
+							this.selectPlayerSource(playerId, index)
+						}
+					/>
+				</AppProvider>
+			</>
+		);
+	};
+
+	// switches a multi-source player to another source, keeping the resume position of the current one
+	selectPlayerSource = (
+		playerId: string,
+		sourceIndex: number,
+		startSeconds?: number
+	) => {
+		const player = this.players[playerId];
+		if (!player || !player.mediaLinks[sourceIndex]) return;
+		if (sourceIndex === player.sourceIndex && startSeconds === undefined) return;
+		player.loopStart = undefined;
+		this.setPlayerRange(playerId, undefined);
+		this.savePlayerTimestamp(playerId);
+		this.renderPlayerSource(
+			playerId,
+			sourceIndex,
+			startSeconds !== undefined
+				? { seconds: startSeconds, autoplay: true }
+				: undefined
+		);
+		void this.updatePlayerMarkers(playerId);
+	};
+
+	// Moves a player into another host element. Embedded frames reload when they are
+	// moved in the DOM, so the player is remounted and continues from the current time.
+	movePlayer = (playerId: string, host: HTMLElement) => {
+		const player = this.players[playerId];
+		if (!player) return Promise.resolve();
+		// one move at a time, two at once would remount a root the other already replaced
+		const move = (player.moving ?? Promise.resolve()).then(() =>
+			this.remountPlayer(playerId, host)
+		);
+		player.moving = move.catch(() => undefined);
+		return move;
 	};
 
-	handleTimestampClick = (timestamp: string): boolean | undefined => {
+	// the move itself, run through movePlayer
+	remountPlayer = async (playerId: string, host: HTMLElement) => {
+		const player = this.players[playerId];
+		const div = document.querySelector<HTMLElement>(
+			`.${mediaNotesContainerClass}[data-player-id="${playerId}"]`
+		);
+		if (!player || !div || div.parentElement === host) return;
+		const controller = player.controllerRef.current;
+		const seconds = (await controller?.getCurrentTime()) ?? 0;
+		const autoplay = (await controller?.isPlaying()) ?? false;
+		// removed while the time was being read
+		if (this.players[playerId] !== player || !div.isConnected) return;
+
+		player.root.unmount();
+		div.parentElement?.classList.remove(mediaNotesHostClass);
+		host.prepend(div);
+		host.classList.add(mediaNotesHostClass);
+		const splitter = document.querySelector(
+			`.${splitterClass}[data-player-id="${playerId}"]`
+		);
+		if (splitter) div.after(splitter);
+		player.root = createRoot(div);
+		this.renderPlayerSource(
+			playerId,
+			player.sourceIndex,
+			controller ? { seconds, autoplay } : undefined
+		);
+	};
+
+	// which of the player's sources a timestamp link points at: either explicitly with
+	// #src=2 (1-based), or by linking to the same media as one of the sources
+	getLinkSourceIndex = (
+		mediaLinks: string[],
+		linkTarget?: string
+	): number | undefined => {
+		if (!linkTarget) return;
+		const srcMatch = linkTarget.match(/^#src=(\d+)$/);
+		if (srcMatch) {
+			const index = Number(srcMatch[1]) - 1;
+			return index >= 0 && index < mediaLinks.length ? index : undefined;
+		}
+		if (mediaLinks.length < 2) return;
+		const targetMediaId = this.mediaProviders
+			.getProvider(linkTarget)
+			?.getMediaId(linkTarget);
+		if (!targetMediaId) return;
+		const index = mediaLinks.findIndex(
+			(mediaLink) =>
+				this.mediaProviders.getProvider(mediaLink)?.getMediaId(mediaLink) ===
+				targetMediaId
+		);
+		return index === -1 ? undefined : index;
+	};
+
+	handleTimestampClick = (
+		timestamp: string,
+		linkTarget?: string,
+		loop?: boolean
+	): boolean | undefined => {
 		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
 		if (!activeView) return;
-		const player = this.getActiveViewYoutubePlayer(activeView);
-		if (!player || !player.ytRef || !isYouTubeUrl(player.mediaLink)) return;
+		return this.seekViewToTimestamp(activeView, timestamp, linkTarget, loop);
+	};
 
-		const seconds = convertTimestampToSeconds(timestamp);
-		player.ytRef.current?.getInternalPlayer()?.seekTo(seconds, true);
+	// seeks the player of the given note to a timestamp (or range) link
+	seekViewToTimestamp = (
+		view: MarkdownView,
+		timestamp: string,
+		linkTarget?: string,
+		loop?: boolean
+	): boolean | undefined => {
+		const playerId = this.getActiveViewPlayerId(view);
+		const player = playerId !== undefined ? this.players[playerId] : undefined;
+		if (playerId === undefined || !player) return;
+
+		const rangeMatch = timestamp.match(timestampRangeRegex);
+		const seconds = convertTimestampToSeconds(
+			rangeMatch ? rangeMatch[1] : timestamp
+		);
+		let range: PlayerRange | undefined;
+		if (rangeMatch) {
+			range = {
+				start: seconds,
+				end: convertTimestampToSeconds(rangeMatch[2]),
+				loop: !!loop,
+				reached: false,
+				passes: 0,
+			};
+		}
+		const sourceIndex = this.getLinkSourceIndex(player.mediaLinks, linkTarget);
+		if (sourceIndex !== undefined && sourceIndex !== player.sourceIndex) {
+			// the other source starts at the timestamp once it has loaded
+			this.selectPlayerSource(playerId, sourceIndex, seconds);
+			this.setPlayerRange(playerId, range);
+			return true;
+		}
+
+		const controller = player.controllerRef.current;
+		if (!controller) {
+			// still loading, seek once it can be controlled
+			this.seekPlayerWhenReady(playerId, seconds);
+			this.setPlayerRange(playerId, range);
+			return true;
+		}
+		controller.seekTo(seconds);
+		this.setPlayerRange(playerId, range);
+		if (range) {
+			controller.play();
+		}
 		player.eventEmitter.emit("handleAction", {
 			type: "timestampClick",
 		});
 		return true;
 	};
 
+	// sets the segment the player keeps to, and shows it on the player
+	setPlayerRange = (playerId: string, range: PlayerRange | undefined) => {
+		const player = this.players[playerId];
+		if (!player) return;
+		player.range = range;
+		if (range) {
+			player.loopStart = undefined;
+		}
+		this.emitLoopStatus(playerId);
+	};
+
+	emitLoopStatus = (playerId: string) => {
+		const player = this.players[playerId];
+		if (!player) return;
+		const { range, loopStart } = player;
+		let status: LoopStatus | null = null;
+		if (range) {
+			status = {
+				start: range.start,
+				end: range.end,
+				loop: range.loop,
+				pass: range.passes + 1,
+				repeats: this.settings.loopRepeatCount,
+			};
+		} else if (loopStart !== undefined) {
+			status = { start: loopStart, loop: true, pass: 0, repeats: 0 };
+		}
+		player.eventEmitter.emit("loopUpdated", status);
+	};
+
+	// moves the cursor onto the next (or previous) timestamp link in the note and seeks to it
+	jumpToTimestamp = (editor: Editor, direction: 1 | -1) => {
+		const cursor = editor.getCursor();
+		for (
+			let line = cursor.line;
+			line >= 0 && line < editor.lineCount();
+			line += direction
+		) {
+			let links = getTimestampLinks(editor.getLine(line));
+			if (line === cursor.line) {
+				links = links.filter((link) =>
+					direction === 1 ? link.from > cursor.ch : link.to < cursor.ch
+				);
+			}
+			const link = direction === 1 ? links[0] : links[links.length - 1];
+			if (!link) continue;
+			// inside the link text, where clicking would have put it
+			const position = { line, ch: link.from + 1 };
+			editor.setCursor(position);
+			editor.scrollIntoView({ from: position, to: position }, true);
+			this.handleTimestampClick(link.text, link.target);
+			return;
+		}
+	};
+
+	// seeks a player (and starts playing) as soon as its media can be controlled
+	seekPlayerWhenReady = (playerId: string, seconds: number) => {
+		let attempts = 0;
+		const interval = window.setInterval(() => {
+			const player = this.players[playerId];
+			const controller = player?.controllerRef.current;
+			attempts++;
+			if (!player || attempts > 40) {
+				window.clearInterval(interval);
+				return;
+			}
+			if (!controller) return;
+			window.clearInterval(interval);
+			controller.seekTo(seconds);
+			controller.play();
+			player.eventEmitter.emit("handleAction", {
+				type: "timestampClick",
+			});
+		}, 250);
+		this.registerInterval(interval);
+	};
+
+	// opens a preview note and plays its media from the given time, on the source matching mediaLink if given
+	openNoteAtTime = async (file: TFile, seconds?: number, mediaLink?: string) => {
+		const leaf = this.app.workspace.getLeaf(false);
+		await leaf.openFile(file);
+		this.app.workspace.setActiveLeaf(leaf, { focus: true });
+		const view = leaf.view;
+		if (!(view instanceof MarkdownView)) return;
+		this.renderPlayerInView(view);
+
+		const playerId = this.getActiveViewPlayerId(view);
+		const player = playerId !== undefined ? this.players[playerId] : undefined;
+		if (playerId === undefined || !player) return;
+		const sourceIndex = this.getLinkSourceIndex(player.mediaLinks, mediaLink);
+		if (sourceIndex !== undefined && sourceIndex !== player.sourceIndex) {
+			this.selectPlayerSource(playerId, sourceIndex, seconds);
+			return;
+		}
+		if (seconds !== undefined) {
+			this.seekPlayerWhenReady(playerId, seconds);
+		}
+	};
+
+	// the preview note that has the given media as one of its sources
+	findNoteForMedia = (mediaLink: string) => {
+		const getMediaId = (link: string) =>
+			this.mediaProviders.getProvider(link)?.getMediaId(link) ?? link;
+		const mediaId = getMediaId(mediaLink);
+		return this.app.vault.getMarkdownFiles().find((file) => {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter) return false;
+			return getPreviewLinksFromFrontmatter(frontmatter).some(
+				(link) => getMediaId(link) === mediaId
+			);
+		});
+	};
+
+	// obsidian://web-preview?file=<note>&t=754 or obsidian://web-preview?url=<media url>&t=12:34.
+	// A url without a note creates one, named after the name param.
+	handleProtocolAction = async (params: ObsidianProtocolData) => {
+		if (params.file) {
+			const file = this.app.metadataCache.getFirstLinkpathDest(params.file, "");
+			if (!file) {
+				new Notice(`Note not found: ${params.file}`);
+				return;
+			}
+			await this.openNoteAtTime(file, parseTimeValue(params.t));
+			return;
+		}
+		if (!params.url) return;
+		const mediaLink = params.url;
+		const seconds =
+			parseTimeValue(params.t) ??
+			this.mediaProviders.getProvider(mediaLink)?.getStartSeconds(mediaLink);
+
+		let file = this.findNoteForMedia(mediaLink);
+		if (!file) {
+			const name = (params.name || "Video").replace(/[\\/:*?"<>|#^[\]]/g, ".");
+			const folder = this.app.fileManager.getNewFileParent("");
+			// a note with the same name is about other media, so this one gets e.g "Video 1"
+			// @ts-ignore TS2339
+			const path: string = this.app.vault.getAvailablePath(
+				normalizePath(`${folder.path}/${name}`),
+				"md"
+			);
+			file = await this.app.vault.create(
+				path,
+				`---\npreview_link: ${mediaLink}\n---\n`
+			);
+		}
+		await this.openNoteAtTime(file, seconds, mediaLink);
+	};
+
+	// stops (or loops) a player at the end of the range it's playing
+	checkPlayerRange = async (playerId: string) => {
+		const player = this.players[playerId];
+		const range = player?.range;
+		const controller = player?.controllerRef.current;
+		if (!range || !controller) return;
+		const seconds = await controller.getCurrentTime();
+		if (player.range !== range) return;
+		const inRange = seconds >= range.start - 1 && seconds < range.end;
+		if (inRange) {
+			range.reached = true;
+			return;
+		}
+		if (!range.reached) return;
+		// seeked away from the segment, play on normally
+		if (seconds < range.start - 1 || seconds > range.end + 2) {
+			this.setPlayerRange(playerId, undefined);
+			return;
+		}
+		const { loopRepeatCount, loopSpeedStep } = this.settings;
+		if (range.loop) {
+			range.passes += 1;
+			if (!loopRepeatCount || range.passes < loopRepeatCount) {
+				controller.seekTo(range.start);
+				// reading the time right after seeking can still give the old one
+				range.reached = false;
+				this.emitLoopStatus(playerId);
+				if (loopSpeedStep > 0) {
+					await this.stepPlaybackRate(playerId, loopSpeedStep);
+				}
+				return;
+			}
+		}
+		controller.pause();
+		this.setPlayerRange(playerId, undefined);
+		player.eventEmitter.emit("handleAction", {
+			type: "pause",
+		});
+	};
+
+	// speeds the player up to its next rate at least step faster, up to its fastest rate
+	stepPlaybackRate = async (playerId: string, step: number) => {
+		const player = this.players[playerId];
+		const controller = player?.controllerRef.current;
+		if (!controller) return;
+		const playbackRates = await controller.getAvailablePlaybackRates();
+		const currentRate = await controller.getPlaybackRate();
+		const nextRate = getNextPlaybackRate(playbackRates, currentRate, 1, step);
+		if (nextRate === currentRate) return;
+		controller.setPlaybackRate(nextRate);
+		player.eventEmitter.emit("handleAction", {
+			type: "setSpeed",
+			speed: nextRate,
+		});
+	};
+
+	// Values for the variables template uses, for a link labelled label pointing at
+	// seconds. Only those are looked up: the title and chapters can take a request each.
+	getTemplateVariables = async (
+		view: MarkdownView | null,
+		playerId: string,
+		template: string,
+		label: string,
+		seconds: number
+	): Promise<TemplateVariables> => {
+		const player = this.players[playerId];
+		const controller = player?.controllerRef.current;
+		if (!controller) return {};
+		const names = getTemplateVariableNames(template);
+		const uses = (...variables: string[]) =>
+			variables.some((name) => names.has(name));
+		const skip = Promise.resolve(undefined);
+		// sources without a linkable url (e.g vault files) get an empty link: [{ts}](),
+		// or one pointing at the source when the note has several: [{ts}](#src=2)
+		const getLink = async () =>
+			(await controller.getTimestampUrl(seconds)) ??
+			(player.mediaLinks.length > 1 ? `#src=${player.sourceIndex + 1}` : "");
+		const [link, title, itemId, speed, currentTime, chapters] =
+			await Promise.all([
+				uses("link") ? getLink() : skip,
+				uses("title") ? controller.getTitle?.() : skip,
+				uses("videoId") ? controller.getCurrentItemId?.() : skip,
+				uses("speed") ? controller.getPlaybackRate() : skip,
+				uses("sentence") ? controller.getCurrentTime() : skip,
+				uses("chapter") ? controller.getChapters?.() : skip,
+			]);
+		// the sentence being spoken now, rather than at the (offset) link time
+		const paragraphs = player.transcriptRef.current;
+		const getSentence = (time: number) => {
+			const { paragraphIndex, sentenceIndex } = findTranscriptPosition(
+				paragraphs,
+				time
+			);
+			return paragraphs[paragraphIndex]?.sentences[sentenceIndex]?.text;
+		};
+		const chapter = chapters
+			?.filter((chapter) => chapter.startSeconds <= seconds)
+			.pop()?.title;
+
+		return {
+			ts: label,
+			link,
+			title,
+			videoId: itemId ?? player.provider?.getMediaId(player.mediaLink) ?? undefined,
+			seconds: Math.floor(seconds),
+			ms: Math.round(seconds * 1000),
+			speed,
+			date: moment().format("YYYY-MM-DD"),
+			sentence: currentTime === undefined ? undefined : getSentence(currentTime),
+			chapter,
+			note: view?.file?.basename,
+		};
+	};
+
+	// inserts a timestamp link for the player's current media using a timestamp template
+	insertTimestampLink = async (
+		editor: Editor,
+		view: MarkdownView,
+		playerId: string,
+		label: string,
+		seconds: number,
+		template = this.settings.timestampTemplate
+	) => {
+		const variables = await this.getTemplateVariables(
+			view,
+			playerId,
+			template,
+			label,
+			seconds
+		);
+		editor.replaceSelection(renderTemplate(template, variables));
+	};
+
+	// inserts the transcript sentence (or paragraph) being spoken as a quote, linked to where it starts
+	insertTranscriptQuote = async (
+		editor: Editor,
+		view: MarkdownView,
+		unit: "sentence" | "paragraph"
+	) => {
+		const active = this.getActiveViewMediaController(view);
+		if (!active) return;
+		const { playerId, player, controller } = active;
+		const paragraphs = player.transcriptRef.current;
+		const { paragraphIndex, sentenceIndex } = findTranscriptPosition(
+			paragraphs,
+			await controller.getCurrentTime()
+		);
+		const paragraph = paragraphs[paragraphIndex];
+		const sentence = paragraph?.sentences[sentenceIndex];
+		const quoted = unit === "sentence" ? sentence : paragraph;
+		if (!paragraph || !quoted) {
+			new Notice(
+				paragraphs.length > 0
+					? "Nothing is being said in the transcript right now"
+					: "This media has no transcript loaded"
+			);
+			return;
+		}
+		const quote =
+			unit === "sentence"
+				? sentence.text
+				: paragraph.sentences.map((sentence) => sentence.text).join(" ");
+		const seconds = quoted.startOffset / 1000;
+		const variables = await this.getTemplateVariables(
+			view,
+			playerId,
+			this.settings.quoteTemplate,
+			formatTimestamp(seconds),
+			seconds
+		);
+		editor.replaceSelection(
+			renderTemplate(this.settings.quoteTemplate, { ...variables, quote })
+		);
+	};
+
+	// Quotes sentences picked in a player's transcript with the quote template, linked
+	// to the range they're spoken in. Inserted at the cursor of the player's note, or of
+	// the last note worked in when that isn't open, or copied to the clipboard.
+	quoteTranscriptSentences = async (
+		playerId: string,
+		sentences: TranscriptSentence[],
+		action: "insert" | "copy"
+	) => {
+		const player = this.players[playerId];
+		if (!player || sentences.length === 0) return;
+		const recentView = this.app.workspace.getMostRecentLeaf()?.view;
+		const view =
+			(player.file && this.getOpenNoteView(player.file)) ??
+			(recentView instanceof MarkdownView ? recentView : null);
+		const start = sentences[0].startOffset / 1000;
+		const end = sentences[sentences.length - 1].endOffset / 1000;
+		const variables = await this.getTemplateVariables(
+			view,
+			playerId,
+			this.settings.quoteTemplate,
+			`${formatTimestamp(start)}-${formatTimestamp(end)}`,
+			start
+		);
+		const quote = sentences.map((sentence) => sentence.text).join(" ");
+		const text = renderTemplate(this.settings.quoteTemplate, {
+			...variables,
+			quote,
+		});
+
+		if (action === "copy") {
+			try {
+				await navigator.clipboard.writeText(text);
+				new Notice("Copied quote with link");
+			} catch (error) {
+				console.error("Failed to copy the quote:", error);
+				new Notice("Couldn't copy the quote to the clipboard");
+			}
+			return;
+		}
+		if (!view) {
+			new Notice("Open a note to insert the quote into");
+			return;
+		}
+		view.editor.replaceSelection(text);
+	};
+
+	// inserts a timestamp for the current time, a little earlier to make up for the time it took to react
+	insertCurrentTimestamp = async (
+		editor: Editor,
+		view: MarkdownView,
+		template?: string
+	) => {
+		const active = this.getActiveViewMediaController(view);
+		if (!active) return;
+		const { playerId, player, controller } = active;
+		const timestamp = await controller.getCurrentTime();
+		if (!timestamp) return;
+		const offsetTimestamp =
+			timestamp - this.settings.timestampOffsetSeconds >= 0
+				? timestamp - this.settings.timestampOffsetSeconds
+				: 0;
+		await this.insertTimestampLink(
+			editor,
+			view,
+			playerId,
+			formatTimestamp(offsetTimestamp),
+			offsetTimestamp,
+			template
+		);
+		if (this.settings.pauseOnTimestampInsert) {
+			if (await controller.isPlaying()) {
+				controller.pause();
+				player.eventEmitter.emit("handleAction", {
+					type: "pause",
+				});
+				return;
+			}
+		}
+	};
+
+	// Writes the whole transcript out as timestamped paragraphs, into the note or a
+	// separate "<title> transcript" note that gets the same media as its preview_link
+	insertFullTranscript = async (editor: Editor, view: MarkdownView) => {
+		const active = this.getActiveViewMediaController(view);
+		const sourceFile = view.file;
+		if (!active || !sourceFile) return;
+		const { player, controller } = active;
+		const sentences: TranscriptSentence[] = [];
+		player.transcriptRef.current.forEach((paragraph) =>
+			sentences.push(...paragraph.sentences)
+		);
+		if (sentences.length === 0) {
+			new Notice("This media has no transcript loaded");
+			return;
+		}
+		const chapters = (await controller.getChapters?.()) ?? [];
+
+		new InsertTranscriptModal(this, chapters.length > 0, async (options) => {
+			if (!options.separateNote) {
+				// links to the source that's playing, when the note has several
+				const linkTarget =
+					player.mediaLinks.length > 1 ? `#src=${player.sourceIndex + 1}` : "";
+				editor.replaceSelection(
+					formatTranscriptMarkdown(sentences, chapters, options, linkTarget)
+				);
+				return;
+			}
+
+			const title = (await controller.getTitle?.()) || sourceFile.basename;
+			const name = `${title} transcript`.replace(/[\\/:*?"<>|#^[\]]/g, "");
+			const path = normalizePath(`${sourceFile.parent?.path ?? ""}/${name}.md`);
+			if (this.app.vault.getAbstractFileByPath(path)) {
+				new Notice(`"${name}" already exists`);
+				return;
+			}
+			const transcriptFile = await this.app.vault.create(
+				path,
+				formatTranscriptMarkdown(sentences, chapters, options)
+			);
+			await this.app.fileManager.processFrontMatter(
+				transcriptFile,
+				(frontmatter) => {
+					frontmatter["preview_link"] = player.mediaLink;
+				}
+			);
+			editor.replaceSelection(
+				this.app.fileManager.generateMarkdownLink(
+					transcriptFile,
+					sourceFile.path
+				) + "\n"
+			);
+		}).open();
+	};
+
+	// Saves the player's current frame as a PNG attachment, then embeds it in the note
+	// followed by a timestamp link to that moment
+	captureCurrentFrame = async (editor: Editor, view: MarkdownView) => {
+		const active = this.getActiveViewMediaController(view);
+		if (!active || !view.file) return;
+		const { playerId, controller } = active;
+		try {
+			const seconds = await controller.getCurrentTime();
+			const data = controller.captureFrame
+				? await controller.captureFrame()
+				: await this.capturePlayerRegion(playerId);
+			if (!data) {
+				new Notice("Couldn't capture a frame from this player");
+				return;
+			}
+
+			const fileName = getFrameFileName(seconds);
+			// respects the "Default location for new attachments" setting
+			// @ts-ignore TS2339
+			const path: string = await this.app.vault.getAvailablePathForAttachments(
+				fileName.replace(/\.png$/, ""),
+				"png",
+				view.file
+			);
+			const imageFile = await this.app.vault.createBinary(path, data);
+			const embed = this.app.fileManager.generateMarkdownLink(
+				imageFile,
+				view.file.path
+			);
+			editor.replaceSelection(`!${embed}\n`);
+			await this.insertTimestampLink(
+				editor,
+				view,
+				playerId,
+				formatTimestamp(seconds),
+				seconds
+			);
+		} catch (error) {
+			console.error("Failed to capture the frame:", error);
+			new Notice(`Failed to capture the frame: ${error.message ?? error}`);
+		}
+	};
+
+	// screenshots the embedded player, without the plugin's overlays on top of it
+	capturePlayerRegion = async (playerId: string) => {
+		const div = document.querySelector<HTMLElement>(
+			`.${mediaNotesContainerClass}[data-player-id="${playerId}"]`
+		);
+		const frameEl = div?.querySelector<HTMLElement>("iframe, webview, video");
+		if (!div || !frameEl) return null;
+		div.addClass("is-capturing-frame");
+		try {
+			// let the overlays disappear before taking the screenshot
+			await new Promise((resolve) => requestAnimationFrame(resolve));
+			await new Promise((resolve) => requestAnimationFrame(resolve));
+			return await captureElement(frameEl);
+		} finally {
+			div.removeClass("is-capturing-frame");
+		}
+	};
+
+	// one insert command per named template, re-registered whenever the templates change
+	registerTemplateCommands = () => {
+		this.templateCommandIds.forEach((id) => {
+			// @ts-ignore TS2339
+			this.app.commands.removeCommand(`${this.manifest.id}:${id}`);
+		});
+		this.templateCommandIds = this.settings.timestampTemplates.map(
+			(namedTemplate) => {
+				const id = `insert-timestamp-template-${namedTemplate.id}`;
+				this.addCommand({
+					id,
+					name: `Insert timestamp: ${namedTemplate.name || "Untitled template"}`,
+					editorCallback: async (editor: Editor, view: MarkdownView) => {
+						// settings are reloaded after saving, so look up the template when run
+						const template = this.settings.timestampTemplates.find(
+							(saved) => saved.id === namedTemplate.id
+						);
+						if (!template) return;
+						await this.insertCurrentTimestamp(editor, view, template.template);
+					},
+				});
+				return id;
+			}
+		);
+	};
+
 	async onload() {
 		this.registerEditorExtension([
 			createClickHandlerPlugin(this.handleTimestampClick),
 		]);
 		await this.loadSettings();
 
+		this.transcriptCache = new TranscriptCache(
+			this.app.vault.adapter,
+			normalizePath(
+				`${this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/transcript-cache.json`
+			),
+			() => ({
+				maxEntries: this.settings.transcriptCacheSize,
+				maxAgeDays: this.settings.transcriptCacheDays,
+			})
+		);
+
+		this.mediaProviders = new MediaProviderRegistry();
+		// generic web pages first, so the more specific providers registered after take precedence
+		this.mediaProviders.register(
+			createWebVideoProvider(() => this.settings.webVideoControl)
+		);
+		this.mediaProviders.register(youTubeProvider);
+		this.mediaProviders.register(vimeoProvider);
+		this.mediaProviders.register(createVaultMediaProvider(this.app));
+
 		this.players = {};
+		this.floatingPlayer = new FloatingPlayer(this);
+		this.registerInterval(
+			window.setInterval(() => {
+				Object.keys(this.players).forEach((id) => {
+					void this.checkPlayerRange(id);
+				});
+			}, 250)
+		);
+
+		this.registerView(
+			MEDIA_PLAYER_VIEW_TYPE,
+			(leaf) => new MediaPlayerView(leaf, this)
+		);
+		this.registerView(
+			TIMESTAMP_OUTLINE_VIEW_TYPE,
+			(leaf) => new TimestampOutlineView(leaf, this)
+		);
 
 		this.app.workspace.getLeavesOfType("markdown").forEach((leaf) => {
 			const view = leaf.view as MarkdownView;
@@ -313,51 +1535,187 @@ export default class MediaNotesPlugin extends Plugin {
 			id: "insert-media-timestamp",
 			name: "Insert Timestamp",
 			editorCallback: async (editor: Editor, view: MarkdownView) => {
-				const player = this.getActiveViewYoutubePlayer(view);
-				if (!player || !player.ytRef || !isYouTubeUrl(player.mediaLink)) return;
-				const timestamp =
-					await player.ytRef.current?.internalPlayer?.getCurrentTime();
-				if (!timestamp) return;
-				const offsetTimestamp =
-					timestamp - this.settings.timestampOffsetSeconds >= 0
-						? timestamp - this.settings.timestampOffsetSeconds
-						: 0;
-				const formattedTimestamp = formatTimestamp(offsetTimestamp);
-				const timestampTemplate = this.settings.timestampTemplate;
-				let timestampSnippet = timestampTemplate.replace(
-					"{ts}",
-					formattedTimestamp
+				await this.insertCurrentTimestamp(editor, view);
+			},
+		});
+
+		this.registerTemplateCommands();
+
+		this.addCommand({
+			id: "insert-transcript-sentence",
+			name: "Insert current transcript sentence as quote",
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				await this.insertTranscriptQuote(editor, view, "sentence");
+			},
+		});
+
+		this.addCommand({
+			id: "insert-transcript-paragraph",
+			name: "Insert current transcript paragraph as quote",
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				await this.insertTranscriptQuote(editor, view, "paragraph");
+			},
+		});
+
+		this.addCommand({
+			id: "insert-transcript",
+			name: "Insert transcript",
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				await this.insertFullTranscript(editor, view);
+			},
+		});
+
+		this.addCommand({
+			id: "refresh-transcript",
+			name: "Refresh transcript",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				const active = this.getActiveViewMediaController(view);
+				if (!active?.player.provider?.supportsTranscript) {
+					new Notice("This media has no transcript");
+					return;
+				}
+				active.player.eventEmitter.emit("refreshTranscript");
+			},
+		});
+
+		this.addCommand({
+			id: "capture-frame",
+			name: "Capture frame",
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				await this.captureCurrentFrame(editor, view);
+			},
+		});
+
+		this.addCommand({
+			id: "mark-range-in",
+			name: "Mark in (start of a range)",
+			editorCallback: async (_editor: Editor, view: MarkdownView) => {
+				const active = this.getActiveViewMediaController(view);
+				if (!active) return;
+				// a little earlier, like inserted timestamps, to make up for the time it took to react
+				const seconds = Math.max(
+					0,
+					(await active.controller.getCurrentTime()) -
+						this.settings.timestampOffsetSeconds
 				);
-				const videoUrl =
-					await player.ytRef.current?.internalPlayer?.getVideoUrl();
-
-				if (videoUrl) {
-					// for some reason, the t= param is wrong in the videoUrl from getVidelUrl. fix it
-					const fixedVideoUrl = new URL(videoUrl);
-					fixedVideoUrl.searchParams.set(
-						"t",
-						Math.floor(offsetTimestamp).toString()
-					);
-					timestampSnippet = timestampSnippet.replace(
-						"{link}",
-						`${fixedVideoUrl}`
-					);
+				this.markIn = { playerId: active.playerId, seconds };
+				new Notice(`Marked in at ${formatTimestamp(seconds)}`);
+			},
+		});
+
+		this.addCommand({
+			id: "mark-range-out",
+			name: "Mark out and insert range",
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				const active = this.getActiveViewMediaController(view);
+				if (!active) return;
+				const { playerId, controller } = active;
+				if (!this.markIn || this.markIn.playerId !== playerId) {
+					new Notice("Use Mark in first");
+					return;
 				}
-				timestampSnippet = timestampSnippet.replace(/\\n/g, "\n");
-				editor.replaceSelection(timestampSnippet);
-				if (this.settings.pauseOnTimestampInsert) {
-					const player = this.getActiveViewYoutubePlayer(view);
-					if (!player || !player.ytRef) return;
-					const playerState =
-						await player.ytRef.current?.internalPlayer?.getPlayerState();
-					if (playerState === YouTube.PlayerState.PLAYING) {
-						player.ytRef.current?.getInternalPlayer()?.pauseVideo();
-						player.eventEmitter.emit("handleAction", {
-							type: "pause",
-						});
-						return;
-					}
+				const markOut = await controller.getCurrentTime();
+				const start = Math.min(this.markIn.seconds, markOut);
+				const end = Math.max(this.markIn.seconds, markOut);
+				this.markIn = undefined;
+				await this.insertTimestampLink(
+					editor,
+					view,
+					playerId,
+					`${formatTimestamp(start)}-${formatTimestamp(end)}`,
+					start
+				);
+			},
+		});
+
+		this.addCommand({
+			id: "seek-to-timestamp-under-cursor",
+			name: "Seek to timestamp under cursor",
+			editorCallback: (editor: Editor) => {
+				const cursor = editor.getCursor();
+				const link = getTimestampLinks(editor.getLine(cursor.line)).find(
+					(link) => cursor.ch >= link.from && cursor.ch <= link.to
+				);
+				if (!link) return;
+				this.handleTimestampClick(link.text, link.target);
+			},
+		});
+
+		this.addCommand({
+			id: "next-timestamp",
+			name: "Jump to next timestamp in note",
+			editorCallback: (editor: Editor) => {
+				this.jumpToTimestamp(editor, 1);
+			},
+		});
+
+		this.addCommand({
+			id: "previous-timestamp",
+			name: "Jump to previous timestamp in note",
+			editorCallback: (editor: Editor) => {
+				this.jumpToTimestamp(editor, -1);
+			},
+		});
+
+		this.addCommand({
+			id: "shift-timestamps",
+			name: "Shift or rescale timestamps",
+			editorCallback: (editor: Editor) => {
+				new ShiftTimestampsModal(this.app, editor).open();
+			},
+		});
+
+		this.addCommand({
+			id: "set-loop-start",
+			name: "Set loop start",
+			editorCallback: async (_editor: Editor, view: MarkdownView) => {
+				const active = this.getActiveViewMediaController(view);
+				if (!active) return;
+				const { playerId, player, controller } = active;
+				const seconds = await controller.getCurrentTime();
+				player.range = undefined;
+				player.loopStart = seconds;
+				this.emitLoopStatus(playerId);
+			},
+		});
+
+		this.addCommand({
+			id: "set-loop-end",
+			name: "Set loop end",
+			editorCallback: async (_editor: Editor, view: MarkdownView) => {
+				const active = this.getActiveViewMediaController(view);
+				if (!active) return;
+				const { playerId, player, controller } = active;
+				const start = player.loopStart;
+				const end = await controller.getCurrentTime();
+				if (start === undefined) {
+					new Notice("Set the loop start first");
+					return;
+				}
+				if (end <= start) {
+					new Notice("The loop end has to come after its start");
+					return;
 				}
+				// playback is at the end already, so this jumps straight back to the start
+				this.setPlayerRange(playerId, {
+					start,
+					end,
+					loop: true,
+					reached: true,
+					passes: 0,
+				});
+			},
+		});
+
+		this.addCommand({
+			id: "clear-loop",
+			name: "Clear loop",
+			editorCallback: async (_editor: Editor, view: MarkdownView) => {
+				const active = this.getActiveViewMediaController(view);
+				if (!active) return;
+				const { playerId, player } = active;
+				player.loopStart = undefined;
+				this.setPlayerRange(playerId, undefined);
 			},
 		});
 
@@ -365,18 +1723,17 @@ export default class MediaNotesPlugin extends Plugin {
 			id: "toggle-play-pause",
 			name: "Play/Pause",
 			editorCallback: async (_editor: Editor, view: MarkdownView) => {
-				const player = this.getActiveViewYoutubePlayer(view);
-				if (!player || !player.ytRef || !isYouTubeUrl(player.mediaLink)) return;
-				const playerState =
-					await player.ytRef.current?.internalPlayer?.getPlayerState();
-				if (playerState === YouTube.PlayerState.PLAYING) {
-					player.ytRef.current?.getInternalPlayer()?.pauseVideo();
+				const active = this.getActiveViewMediaController(view);
+				if (!active) return;
+				const { player, controller } = active;
+				if (await controller.isPlaying()) {
+					controller.pause();
 					player.eventEmitter.emit("handleAction", {
 						type: "pause",
 					});
 					return;
 				}
-				player.ytRef.current?.getInternalPlayer()?.playVideo();
+				controller.play();
 				player.eventEmitter.emit("handleAction", {
 					type: "play",
 				});
@@ -387,21 +1744,23 @@ export default class MediaNotesPlugin extends Plugin {
 			id: "toggle-horizontal-view",
 			name: "Toggle horizontal/vertical split",
 			editorCallback: async (editor: Editor, view: MarkdownView) => {
-				const player = this.getActiveViewYoutubePlayer(view);
-				if (!player) return; // This command works for both YouTube and web views
 				console.log("toggle horizontal view");
 				const container = view.containerEl;
 				const existingPlayer = view.containerEl.querySelector(
 					"." + mediaNotesContainerClass
 				) as HTMLElement;
+				// This command works for both media players and web views, but not the separate player pane
+				if (!existingPlayer) return;
+				const player =
+					this.players[existingPlayer.getAttribute("data-player-id") ?? ""];
+				const size = this.getPlayerSize(view.file, player?.config);
 				if (
 					container.classList.contains(
 						mediaParentContainerVerticalClass
 					)
 				) {
 					if (existingPlayer) {
-						existingPlayer.style.height =
-							this.settings.verticalPlayerHeight + "%";
+						existingPlayer.style.height = size.height + "%";
 						existingPlayer.style.width = "100%";
 					}
 					container.classList.remove(
@@ -409,8 +1768,7 @@ export default class MediaNotesPlugin extends Plugin {
 					);
 				} else {
 					if (existingPlayer) {
-						existingPlayer.style.width =
-							this.settings.horizontalPlayerWidth + "%";
+						existingPlayer.style.width = size.width + "%";
 						existingPlayer.style.height = "100%";
 					}
 					container.classList.add(mediaParentContainerVerticalClass);
@@ -422,15 +1780,13 @@ export default class MediaNotesPlugin extends Plugin {
 			id: "seek-forward",
 			name: "Fast Forward",
 			editorCallback: async (editor: Editor, view: MarkdownView) => {
-				const player = this.getActiveViewYoutubePlayer(view);
-				if (!player || !player.ytRef || !isYouTubeUrl(player.mediaLink)) return;
-				const currentTime =
-					await player.ytRef.current?.internalPlayer?.getCurrentTime();
+				const active = this.getActiveViewMediaController(view);
+				if (!active) return;
+				const { player, controller } = active;
+				const currentTime = await controller.getCurrentTime();
 				if (!currentTime) return;
 				const newTime = currentTime + this.settings.seekSeconds;
-				player.ytRef.current
-					?.getInternalPlayer()
-					?.seekTo(newTime, true);
+				controller.seekTo(newTime);
 				player.eventEmitter.emit("handleAction", {
 					type: "seekForward",
 				});
@@ -441,19 +1797,16 @@ export default class MediaNotesPlugin extends Plugin {
 			id: "seek-backwards",
 			name: "Rewind",
 			editorCallback: async (editor: Editor, view: MarkdownView) => {
-				const player = this.getActiveViewYoutubePlayer(view);
-				if (!player || !player.ytRef || !isYouTubeUrl(player.mediaLink)) return;
-				const currentTime =
-					await player.ytRef.current?.internalPlayer?.getCurrentTime();
+				const active = this.getActiveViewMediaController(view);
+				if (!active) return;
+				const { player, controller } = active;
+				const currentTime = await controller.getCurrentTime();
 				if (!currentTime) return;
 				const newTime = currentTime - this.settings.seekSeconds;
-				player.ytRef.current
-					?.getInternalPlayer()
-					?.seekTo(newTime, true);
+				controller.seekTo(newTime);
 				player.eventEmitter.emit("handleAction", {
 					type: "seekBackwards",
 				});
-				// player.ytRef.current?.getInternalPlayer()?.showVideoInfo();
 				// TODO: this isn't working - don't think i can simulate a mousemove to the iframe
 				const existingPlayer = view.containerEl.querySelector(
 					".media-notes-container .youtube-iframe"
@@ -466,21 +1819,14 @@ export default class MediaNotesPlugin extends Plugin {
 			id: "speed-up",
 			name: "Speed up",
 			editorCallback: async (editor: Editor, view: MarkdownView) => {
-				const player = this.getActiveViewYoutubePlayer(view);
-				if (!player || !player.ytRef || !isYouTubeUrl(player.mediaLink)) return;
-				const internalPlayer =
-					player.ytRef.current?.getInternalPlayer();
-				if (!internalPlayer) return;
+				const active = this.getActiveViewMediaController(view);
+				if (!active) return;
+				const { player, controller } = active;
 				const playbackRates =
-					await internalPlayer.getAvailablePlaybackRates();
-				const currentRate = await internalPlayer.getPlaybackRate();
-				const currentRateIndex = playbackRates.indexOf(currentRate);
-				const nextRateIndex =
-					currentRateIndex + 1 < playbackRates.length
-						? currentRateIndex + 1
-						: currentRateIndex;
-				const nextRate = playbackRates[nextRateIndex];
-				internalPlayer.setPlaybackRate(nextRate);
+					await controller.getAvailablePlaybackRates();
+				const currentRate = await controller.getPlaybackRate();
+				const nextRate = getNextPlaybackRate(playbackRates, currentRate, 1);
+				controller.setPlaybackRate(nextRate);
 				player.eventEmitter.emit("handleAction", {
 					type: "setSpeed",
 					speed: nextRate,
@@ -492,19 +1838,14 @@ export default class MediaNotesPlugin extends Plugin {
 			id: "slow-down",
 			name: "Slow down",
 			editorCallback: async (editor: Editor, view: MarkdownView) => {
-				const player = this.getActiveViewYoutubePlayer(view);
-				if (!player || !player.ytRef || !isYouTubeUrl(player.mediaLink)) return;
-				const internalPlayer =
-					player.ytRef.current?.getInternalPlayer();
-				if (!internalPlayer) return;
+				const active = this.getActiveViewMediaController(view);
+				if (!active) return;
+				const { player, controller } = active;
 				const playbackRates =
-					await internalPlayer.getAvailablePlaybackRates();
-				const currentRate = await internalPlayer.getPlaybackRate();
-				const currentRateIndex = playbackRates.indexOf(currentRate);
-				const nextRateIndex =
-					currentRateIndex - 1 >= 0 ? currentRateIndex - 1 : 0;
-				const nextRate = playbackRates[nextRateIndex];
-				internalPlayer.setPlaybackRate(nextRate);
+					await controller.getAvailablePlaybackRates();
+				const currentRate = await controller.getPlaybackRate();
+				const nextRate = getNextPlaybackRate(playbackRates, currentRate, -1);
+				controller.setPlaybackRate(nextRate);
 				player.eventEmitter.emit("handleAction", {
 					type: "setSpeed",
 					speed: nextRate,
@@ -512,6 +1853,87 @@ export default class MediaNotesPlugin extends Plugin {
 			},
 		});
 
+		this.addCommand({
+			id: "next-playlist-item",
+			name: "Next video",
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				const active = this.getActiveViewMediaController(view);
+				if (!active || !active.controller.nextItem) return;
+				// remember where we left the current video before moving on
+				this.savePlayerTimestamp(active.playerId);
+				active.controller.nextItem();
+			},
+		});
+
+		this.addCommand({
+			id: "previous-playlist-item",
+			name: "Previous video",
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				const active = this.getActiveViewMediaController(view);
+				if (!active || !active.controller.previousItem) return;
+				this.savePlayerTimestamp(active.playerId);
+				active.controller.previousItem();
+			},
+		});
+
+		this.addCommand({
+			id: "insert-video-heading",
+			name: "Insert video heading",
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				const active = this.getActiveViewMediaController(view);
+				if (!active) return;
+				const { controller } = active;
+				const title = (await controller.getTitle?.()) ?? "Untitled";
+				const position = await controller.getPlaylistPosition?.();
+				const videoUrl = await controller.getTimestampUrl(0);
+				const heading = position
+					? `## ${position.index + 1}. ${title}`
+					: `## ${title}`;
+				editor.replaceSelection(
+					`${heading}\n${videoUrl ? `[${title}](${videoUrl})\n` : ""}\n`
+				);
+			},
+		});
+
+		this.addCommand({
+			id: "open-player-view",
+			name: "Open player in separate pane",
+			editorCallback: async (editor: Editor, view: MarkdownView) => {
+				await this.openPlayerView(view);
+			},
+		});
+
+		this.addCommand({
+			id: "open-timestamp-outline",
+			name: "Open timestamp outline",
+			callback: async () => {
+				let leaf = this.app.workspace.getLeavesOfType(
+					TIMESTAMP_OUTLINE_VIEW_TYPE
+				)[0];
+				if (!leaf) {
+					leaf = this.app.workspace.getRightLeaf(false);
+					await leaf.setViewState({
+						type: TIMESTAMP_OUTLINE_VIEW_TYPE,
+						active: false,
+					});
+				}
+				this.app.workspace.revealLeaf(leaf);
+			},
+		});
+
+		this.addCommand({
+			id: "toggle-player-view-pin",
+			name: "Pin/unpin separate player to its note",
+			checkCallback: (checking: boolean) => {
+				const playerView = this.getMediaPlayerView();
+				if (!playerView) return false;
+				if (!checking) {
+					playerView.setPinned(!playerView.pinned);
+				}
+				return true;
+			},
+		});
+
 		this.addCommand({
 			id: "toggle-media-container",
 			name: "Toggle Media Container",
@@ -531,6 +1953,10 @@ export default class MediaNotesPlugin extends Plugin {
 			},
 		});
 
+		this.registerObsidianProtocolHandler("web-preview", (params) => {
+			void this.handleProtocolAction(params);
+		});
+
 		// This adds a settings tab so the user can configure various aspects of the plugin
 		this.addSettingTab(new SettingsTab(this.app, this));
 
@@ -549,11 +1975,30 @@ export default class MediaNotesPlugin extends Plugin {
 			})
 		);
 
+		// keep the seek bar markers in step with the notes
+		const updateMarkers = debounce(
+			(file: TFile) => {
+				Object.entries(this.players).forEach(([playerId, player]) => {
+					if (player.file?.path === file.path) {
+						void this.updatePlayerMarkers(playerId);
+					}
+				});
+			},
+			500,
+			true
+		);
+		this.registerEvent(
+			this.app.workspace.on("editor-change", (_editor, info) => {
+				if (info.file) updateMarkers(info.file);
+			})
+		);
+
 		this.registerEvent(
 			this.app.metadataCache.on("changed", (file) => {
+				updateMarkers(file);
 				const frontmatter =
 					this.app.metadataCache.getFileCache(file)?.frontmatter;
-				if (frontmatter && getPreviewLinkFromFrontmatter(frontmatter)) {
+				if (frontmatter && getPreviewLinksFromFrontmatter(frontmatter).length > 0) {
 					// technically this may not be the same view as the file that changed
 					const markdownView =
 						this.app.workspace.getActiveViewOfType(MarkdownView);
@@ -563,41 +2008,46 @@ export default class MediaNotesPlugin extends Plugin {
 			})
 		);
 
-		// TODO: this doesn't work yet, its for Reading mode
-		// this.registerMarkdownPostProcessor(
-		// 	(el: HTMLElement, ctx: MarkdownPostProcessorContext) => {
-		// 		el.querySelectorAll(".external-link").forEach(
-		// 			(link: HTMLAnchorElement) => {
-		// 				link.addEventListener("click", (event: MouseEvent) => {
-		// 					event.preventDefault();
-		// 					// Your custom logic here
-		// 					console.log(
-		// 						"Intercepted cm-link click:",
-		// 						link.href
-		// 					);
-		// 				});
-		// 			}
-		// 		);
-		// 	}
-		// );
+		// keep the notes' player sizes when they are renamed
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				const size = this.settings.playerSizes[oldPath];
+				if (!size) return;
+				this.settings.playerSizes[file.path] = size;
+				delete this.settings.playerSizes[oldPath];
+				void this.saveSettings();
+			})
+		);
+
+		// Timestamp links in Reading mode
+		this.registerMarkdownPostProcessor((el: HTMLElement) => {
+			el.querySelectorAll("a").forEach((link: HTMLAnchorElement) => {
+				const textContent = link.textContent?.trim();
+				if (!textContent || !isTimestampLinkText(textContent)) return;
+				link.addEventListener("click", (event: MouseEvent) => {
+					const isHandled = this.handleTimestampClick(
+						textContent,
+						link.getAttribute("href") ?? undefined,
+						isLoopClick(event)
+					);
+					if (isHandled) {
+						event.preventDefault();
+						event.stopPropagation();
+					}
+				});
+			});
+		});
 	}
 
 	onunload() {
-		// if there's an active view, save the timestamp (for development hot reloading)
-		const activeView = this.app.workspace.getActiveViewOfType(MarkdownView);
-		if (!activeView) return;
-		const container = activeView.containerEl;
-
-		// cleanup existing players, and save timestamp
-		const div = container.querySelector("." + mediaNotesContainerClass);
-		if (div) {
-			// unmount
-			const playerId = div.getAttribute("data-player-id") ?? "";
-			console.log("save timestamp before reloading!");
-			this.savePlayerTimestamp(playerId);
-			delete this.players[playerId];
-			div.remove();
-		}
+		// the separate player pane keeps playing whatever note is active, save it too
+		this.getMediaPlayerView()?.clearPlayer();
+		this.floatingPlayer.close();
+
+		// cleanup existing players, and save their timestamps (for development hot reloading)
+		Object.keys(this.players).forEach((playerId) => {
+			this.removePlayer(playerId);
+		});
 	}
 
 	async loadSettings() {
@@ -624,6 +2074,16 @@ class SettingsTab extends PluginSettingTab {
 		this.plugin = plugin;
 	}
 
+	// shows how a template renders with sample values, returns a function to update it
+	createTemplatePreview(setting: Setting) {
+		const previewEl = setting.descEl.createEl("pre", {
+			cls: "timestamp-template-preview",
+		});
+		return (template: string) => {
+			previewEl.setText(renderTemplate(template, SAMPLE_TEMPLATE_VARIABLES));
+		};
+	}
+
 	display(): void {
 		const { containerEl } = this;
 
@@ -632,19 +2092,21 @@ class SettingsTab extends PluginSettingTab {
 		new Setting(containerEl)
 			.setName("Default split view")
 			.setDesc(
-				"Vertical or horizontal split view. Defaults to horizontal."
+				"Vertical or horizontal split view, or a floating player window that can be moved and resized. Defaults to horizontal."
 			)
 			.addDropdown((dropdown) => {
 				dropdown
 					.addOptions({
 						Vertical: "Vertical",
 						Horizontal: "Horizontal",
+						Floating: "Floating",
 					})
 					.setValue(this.plugin.settings.defaultSplitMode)
 					.onChange(async (value) => {
 						this.plugin.settings.defaultSplitMode = value as
 							| "Vertical"
-							| "Horizontal";
+							| "Horizontal"
+							| "Floating";
 						await this.plugin.saveSettings();
 					});
 			});
@@ -711,18 +2173,103 @@ class SettingsTab extends PluginSettingTab {
 					})
 			);
 
-		new Setting(containerEl)
+		const variableList = TEMPLATE_VARIABLES.map((name) => `{${name}}`).join(", ");
+		const templateSetting = new Setting(containerEl)
 			.setName("Timestamp template")
 			.setDesc(
-				"Markdown template for inserted timestamp. Variables: {ts} is timestamp, {link} is a timestamped url, \\n is new line. Example: \\n- [{ts}]({link}) "
+				`Markdown template for inserted timestamp. Variables: ${variableList} ({ts} is timestamp, {link} is a timestamped url), see below for sections. \\n is new line. Example: \\n- [{ts}]({link}) `
+			);
+		const templatePreview = this.createTemplatePreview(templateSetting);
+		templateSetting.addTextArea((text) => {
+			text.setValue(this.plugin.settings.timestampTemplate).onChange(
+				async (value) => {
+					this.plugin.settings.timestampTemplate = value;
+					templatePreview(value);
+					await this.plugin.saveSettings();
+				}
+			);
+			templatePreview(text.getValue());
+		});
+
+		const quoteTemplateSetting = new Setting(containerEl)
+			.setName("Quote template")
+			.setDesc(
+				"Template for the insert transcript sentence/paragraph commands. {quote} is the transcript text, {ts} and {link} point at where it starts."
+			);
+		const quoteTemplatePreview = this.createTemplatePreview(quoteTemplateSetting);
+		quoteTemplateSetting.addTextArea((text) => {
+			text.setValue(this.plugin.settings.quoteTemplate).onChange(
+				async (value) => {
+					this.plugin.settings.quoteTemplate = value;
+					quoteTemplatePreview(value);
+					await this.plugin.saveSettings();
+				}
+			);
+			quoteTemplatePreview(text.getValue());
+		});
+
+		containerEl.createEl("p", {
+			cls: "setting-item-description",
+			text: `Templates can use ${variableList}. Each can appear any number of times. {#title}...{/title} is only inserted when there's a title, and {^title}...{/title} only when there isn't.`,
+		});
+
+		this.plugin.settings.timestampTemplates.forEach((namedTemplate, index) => {
+			const setting = new Setting(containerEl).setName(
+				`Template: ${namedTemplate.name || "Untitled template"}`
+			);
+			const preview = this.createTemplatePreview(setting);
+			setting
+				.addText((text) =>
+					text
+						.setPlaceholder("Name")
+						.setValue(namedTemplate.name)
+						.onChange(async (value) => {
+							namedTemplate.name = value;
+							setting.setName(`Template: ${value || "Untitled template"}`);
+							await this.plugin.saveSettings();
+							this.plugin.registerTemplateCommands();
+						})
+				)
+				.addTextArea((text) => {
+					text
+						.setPlaceholder("> {sentence}\\n[{ts}]({link})")
+						.setValue(namedTemplate.template)
+						.onChange(async (value) => {
+							namedTemplate.template = value;
+							preview(value);
+							await this.plugin.saveSettings();
+						});
+					preview(text.getValue());
+				})
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Delete template")
+						.onClick(async () => {
+							this.plugin.settings.timestampTemplates.splice(index, 1);
+							await this.plugin.saveSettings();
+							this.plugin.registerTemplateCommands();
+							this.display();
+						})
+				);
+		});
+
+		new Setting(containerEl)
+			.setName("Add timestamp template")
+			.setDesc(
+				"Named templates get their own \"Insert timestamp: <name>\" command, so they can have separate hotkeys."
 			)
-			.addText((text) =>
-				text
-					.setValue(this.plugin.settings.timestampTemplate)
-					.onChange(async (value) => {
-						this.plugin.settings.timestampTemplate = value;
-						await this.plugin.saveSettings();
-					})
+			.addButton((button) =>
+				button.setButtonText("Add template").onClick(async () => {
+					this.plugin.settings.timestampTemplates.push({
+						id: Math.random().toString(36).substring(2, 10),
+						name: "",
+						template: "[{ts}]({link})\\n",
+					});
+					await this.plugin.saveSettings();
+					this.plugin.registerTemplateCommands();
+					this.display();
+				})
 			);
 
 		new Setting(containerEl)
@@ -751,6 +2298,20 @@ class SettingsTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Keep progress bar visible when paused")
+			.setDesc(
+				"Show the progress bar while paused too. By default it's only shown while playing."
+			)
+			.addToggle((val) =>
+				val
+					.setValue(this.plugin.settings.progressBarWhenPaused)
+					.onChange(async (value) => {
+						this.plugin.settings.progressBarWhenPaused = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Progress bar color")
 			.setDesc("Color of the progress bar below the video")
@@ -808,7 +2369,7 @@ class SettingsTab extends PluginSettingTab {
 		new Setting(containerEl)
 			.setName("Transcript language")
 			.setDesc(
-				"Preferred language code for transcript (e.g., en, es, fr, de)"
+				"Preferred language codes for transcripts, in order (e.g. en, or de, en to fall back on English). Uploaded captions are picked before auto-generated ones."
 			)
 			.addText((text) =>
 				text
@@ -820,9 +2381,107 @@ class SettingsTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Seek to transcript search matches")
+			.setDesc(
+				"Move the player to a search match when you step to it or click it in the transcript"
+			)
+			.addToggle((val) =>
+				val
+					.setValue(this.plugin.settings.seekToTranscriptMatch)
+					.onChange(async (value) => {
+						this.plugin.settings.seekToTranscriptMatch = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Cached transcripts")
+			.setDesc(
+				"How many downloaded transcripts to keep, so notes open without downloading them again and work offline. 0 turns the cache off."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 1000, 10)
+					.setDynamicTooltip()
+					.setValue(this.plugin.settings.transcriptCacheSize)
+					.onChange(async (value) => {
+						this.plugin.settings.transcriptCacheSize = value;
+						await this.plugin.saveSettings();
+					})
+			)
+			.addButton((button) =>
+				button.setButtonText("Clear").onClick(async () => {
+					await this.plugin.transcriptCache.clear();
+					new Notice("Cleared the transcript cache");
+				})
+			);
+
+		new Setting(containerEl)
+			.setName("Transcript cache days")
+			.setDesc(
+				"Days before a cached transcript is downloaded again. The old copy is still used when offline. 0 keeps it until you run \"Refresh transcript\"."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 365, 1)
+					.setDynamicTooltip()
+					.setValue(this.plugin.settings.transcriptCacheDays)
+					.onChange(async (value) => {
+						this.plugin.settings.transcriptCacheDays = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Loop repeats")
+			.setDesc(
+				"How many times an A-B loop plays before it stops. 0 loops until it's cleared."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 20, 1)
+					.setDynamicTooltip()
+					.setValue(this.plugin.settings.loopRepeatCount)
+					.onChange(async (value) => {
+						this.plugin.settings.loopRepeatCount = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Loop speed step")
+			.setDesc(
+				"Speeds playback up by at least this much after each pass through a loop, to the next speed the player supports, e.g start slow and work up to full speed. 0 keeps the speed."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 0.5, 0.05)
+					.setDynamicTooltip()
+					.setValue(this.plugin.settings.loopSpeedStep)
+					.onChange(async (value) => {
+						this.plugin.settings.loopSpeedStep = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		// Add heading for web view settings
 		containerEl.createEl("h3", { text: "Web View Settings (for non-YouTube links)" });
 
+		new Setting(containerEl)
+			.setName("Control videos on web pages")
+			.setDesc(
+				"Look for a video on web pages, so the media hotkeys, timestamps and resume playback work on it. Each page is checked for one for 20 seconds after it loads. Applies to web pages opened after changing it."
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.webVideoControl)
+					.onChange(async (value) => {
+						this.plugin.settings.webVideoControl = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Web view user agent")
 			.setDesc(
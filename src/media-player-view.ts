@@ -0,0 +1,147 @@
+import { ItemView, TFile, ViewStateResult, WorkspaceLeaf, setIcon } from "obsidian";
+import type MediaNotesPlugin from "./main";
+import {
+	NotePlayerConfig,
+	getNotePlayerConfig,
+	getPreviewLinksFromFrontmatter,
+} from "./main";
+
+export const MEDIA_PLAYER_VIEW_TYPE = "media-notes-player";
+
+interface MediaPlayerViewState {
+	file?: string;
+	pinned?: boolean;
+}
+
+// A player in its own leaf. It keeps playing while you move between notes, follows
+// whichever preview note is opened, or stays on one note when pinned.
+export class MediaPlayerView extends ItemView {
+	plugin: MediaNotesPlugin;
+	// the preview note whose media is loaded
+	file: TFile | null = null;
+	pinned = false;
+	playerId: string | null = null;
+	headerEl: HTMLElement;
+	playerHostEl: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf, plugin: MediaNotesPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return MEDIA_PLAYER_VIEW_TYPE;
+	}
+
+	getDisplayText() {
+		return "Media player";
+	}
+
+	getIcon() {
+		return "play-circle";
+	}
+
+	async onOpen() {
+		this.contentEl.empty();
+		this.contentEl.addClass("media-player-view");
+		this.headerEl = this.contentEl.createDiv("media-player-view-header");
+		this.playerHostEl = this.contentEl.createDiv("media-player-view-player");
+		this.renderHeader();
+	}
+
+	async onClose() {
+		this.clearPlayer();
+	}
+
+	getState() {
+		return {
+			...super.getState(),
+			file: this.file?.path,
+			pinned: this.pinned,
+		};
+	}
+
+	async setState(state: MediaPlayerViewState, result: ViewStateResult) {
+		this.pinned = !!state.pinned;
+		const file = state.file
+			? this.app.vault.getAbstractFileByPath(state.file)
+			: null;
+		if (file instanceof TFile && file.path !== this.file?.path) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			const mediaLinks = frontmatter
+				? getPreviewLinksFromFrontmatter(frontmatter)
+				: [];
+			if (frontmatter && mediaLinks.length > 0) {
+				this.showNote(file, mediaLinks, getNotePlayerConfig(frontmatter));
+			}
+		}
+		this.renderHeader();
+		await super.setState(state, result);
+	}
+
+	// whether the given note's media should play here instead of inline
+	shouldShowNote(file: TFile | null) {
+		return !!file && (!this.pinned || this.file?.path === file.path);
+	}
+
+	showNote(
+		file: TFile,
+		mediaLinks: string[],
+		config: NotePlayerConfig,
+		startAt?: { seconds: number; autoplay: boolean }
+	) {
+		const player = this.playerId ? this.plugin.players[this.playerId] : undefined;
+		this.file = file;
+		// same media as what's already playing, keep it going
+		if (!player || player.mediaLinks.join("\n") !== mediaLinks.join("\n")) {
+			this.clearPlayer();
+			const div = this.playerHostEl.createDiv();
+			this.playerId = this.plugin.mountPlayer(
+				div,
+				file,
+				mediaLinks,
+				config,
+				startAt
+			);
+		} else if (this.playerId) {
+			this.plugin.setPlayerFile(this.playerId, file);
+		}
+		this.renderHeader();
+		this.app.workspace.requestSaveLayout();
+	}
+
+	clearPlayer() {
+		if (!this.playerId) return;
+		this.plugin.removePlayer(this.playerId);
+		this.playerId = null;
+	}
+
+	setPinned(pinned: boolean) {
+		this.pinned = pinned;
+		this.renderHeader();
+		this.app.workspace.requestSaveLayout();
+	}
+
+	renderHeader() {
+		if (!this.headerEl) return;
+		this.headerEl.empty();
+		const noteEl = this.headerEl.createDiv({
+			cls: "media-player-view-note",
+			text: this.file ? this.file.basename : "Open a note with a preview_link",
+		});
+		if (this.file) {
+			const file = this.file;
+			noteEl.addClass("is-clickable");
+			noteEl.onclick = () => {
+				this.app.workspace.openLinkText(file.path, "");
+			};
+		}
+		const pinButton = this.headerEl.createDiv({
+			cls: "clickable-icon",
+			attr: { "aria-label": this.pinned ? "Unpin from note" : "Pin to note" },
+		});
+		pinButton.toggleClass("is-active", this.pinned);
+		setIcon(pinButton, this.pinned ? "pin-off" : "pin");
+		pinButton.onclick = () => this.setPinned(!this.pinned);
+	}
+}
@@ -0,0 +1,36 @@
+import type { MediaController } from "./media-provider";
+import { captureVideoFrame } from "../frame-capture";
+
+// same steps YouTube offers, so speed commands behave identically across sources
+export const HTML_MEDIA_PLAYBACK_RATES = [
+	0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2,
+];
+
+export const createHtmlMediaController = (
+	mediaElement: HTMLMediaElement,
+	getTimestampUrl: (seconds: number) => string | undefined = () => undefined
+): MediaController => ({
+	getCurrentTime: async () => mediaElement.currentTime,
+	getDuration: async () =>
+		isFinite(mediaElement.duration) ? mediaElement.duration : 0,
+	seekTo: (seconds) => {
+		mediaElement.currentTime = Math.max(0, seconds);
+	},
+	isPlaying: async () => !mediaElement.paused && !mediaElement.ended,
+	play: () => {
+		void mediaElement.play();
+	},
+	pause: () => {
+		mediaElement.pause();
+	},
+	getPlaybackRate: async () => mediaElement.playbackRate,
+	setPlaybackRate: (rate) => {
+		mediaElement.playbackRate = rate;
+	},
+	getAvailablePlaybackRates: async () => HTML_MEDIA_PLAYBACK_RATES,
+	getTimestampUrl: async (seconds) => getTimestampUrl(seconds),
+	captureFrame: async () =>
+		mediaElement instanceof HTMLVideoElement
+			? captureVideoFrame(mediaElement)
+			: null,
+});
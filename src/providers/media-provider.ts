@@ -0,0 +1,122 @@
+import * as React from "react";
+
+// Playback surface exposed by a mounted player. Commands and the timestamp
+// click handler only ever talk to the player through this interface.
+export interface MediaController {
+	getCurrentTime(): Promise<number>;
+	getDuration(): Promise<number>;
+	seekTo(seconds: number): void;
+	isPlaying(): Promise<boolean>;
+	play(): void;
+	pause(): void;
+	getPlaybackRate(): Promise<number>;
+	setPlaybackRate(rate: number): void;
+	getAvailablePlaybackRates(): Promise<readonly number[]>;
+	// url of the playing media with the given time encoded in it, if the source supports that
+	getTimestampUrl(seconds: number): Promise<string | undefined>;
+	getTitle?(): Promise<string | undefined>;
+	// chapters of the playing media, in order
+	getChapters?(): Promise<Chapter[]>;
+	// the current frame as a PNG, for media whose pixels can be read directly.
+	// Other sources are captured as a screenshot of the player instead
+	captureFrame?(): Promise<ArrayBuffer | null>;
+	// playlist support, only implemented by sources that can hold several items
+	getPlaylistPosition?(): Promise<PlaylistPosition | null>;
+	// id of the playing item within the playlist, null when not playing a playlist
+	getCurrentItemId?(): Promise<string | null>;
+	nextItem?(): void;
+	previousItem?(): void;
+}
+
+// The first of rates at least step faster (direction 1) or slower (-1) than rate,
+// or the fastest or slowest when there is none. Players only take rates from their list
+export const getNextPlaybackRate = (
+	rates: readonly number[],
+	rate: number,
+	direction: 1 | -1,
+	step = 0
+) => {
+	const sorted = [...rates].sort((a, b) => (a - b) * direction);
+	// at least one rate on, rates can be off by rounding
+	const minStep = Math.max(step, 0.01) - 0.001;
+	return (
+		sorted.find((next) => (next - rate) * direction >= minStep) ??
+		sorted[sorted.length - 1] ??
+		rate
+	);
+};
+
+// the rate of rates closest to rate
+export const getNearestPlaybackRate = (rates: readonly number[], rate: number) =>
+	rates.reduce(
+		(nearest, next) =>
+			Math.abs(next - rate) < Math.abs(nearest - rate) ? next : nearest,
+		rates[0] ?? rate
+	);
+
+export interface Chapter {
+	title: string;
+	startSeconds: number;
+}
+
+export interface PlaylistPosition {
+	// zero based
+	index: number;
+	total: number;
+}
+
+export interface MediaItem {
+	id: string;
+	mediaLink: string;
+}
+
+export interface MediaPlayerProps {
+	mediaLink: string;
+	// the player sets this once its underlying media is ready to be controlled
+	controllerRef: React.MutableRefObject<MediaController | null>;
+	initSeconds: number;
+	autoplay?: boolean;
+	// playlist item to start on, when resuming a playlist
+	initPlaylistIndex?: number;
+	// resume position of an item within a playlist, for when playback moves onto it
+	getItemStartSeconds?: (itemId: string) => number | undefined;
+	onReady?: (duration: number) => void;
+	onPlay?: () => void;
+	onPause?: () => void;
+	// fired when a playlist moves on to another item
+	onItemChange?: (item: MediaItem) => void;
+}
+
+export interface MediaProvider {
+	id: string;
+	// whether MediaFrame should fetch and show a transcript for this source
+	supportsTranscript: boolean;
+	// extra class for the .media-container, e.g to let web pages use the full height
+	containerClassName?: string;
+	matches(mediaLink: string): boolean;
+	// stable id used to key resume data in settings.mediaData
+	getMediaId(mediaLink: string): string | null;
+	// start time encoded in the link itself (e.g. YouTube's t= param)
+	getStartSeconds(mediaLink: string): number | undefined;
+	Player: React.FC<MediaPlayerProps>;
+}
+
+export class MediaProviderRegistry {
+	private providers: MediaProvider[] = [];
+
+	register(provider: MediaProvider) {
+		// later registrations win, so a more specific provider can override a generic one
+		this.providers = [
+			provider,
+			...this.providers.filter((p) => p.id !== provider.id),
+		];
+	}
+
+	getProvider(mediaLink: string): MediaProvider | undefined {
+		return this.providers.find((provider) => provider.matches(mediaLink));
+	}
+
+	getProviderById(id: string): MediaProvider | undefined {
+		return this.providers.find((provider) => provider.id === id);
+	}
+}
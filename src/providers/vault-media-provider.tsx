@@ -0,0 +1,99 @@
+import * as React from "react";
+import { App, TFile } from "obsidian";
+import type { MediaPlayerProps, MediaProvider } from "./media-provider";
+import { createHtmlMediaController } from "./html-media-controller";
+
+const VIDEO_EXTENSIONS = ["mp4", "webm", "ogv", "mov", "m4v", "mkv"];
+const AUDIO_EXTENSIONS = ["mp3", "m4a", "wav", "ogg", "oga", "flac", "aac", "opus"];
+
+// "[[lecture-03.mp4|Lecture]]" or "Recordings/lecture-03.mp4" -> linkpath
+export const getVaultLinkpath = (mediaLink: string): string => {
+	const trimmed = mediaLink.trim();
+	const wikilinkMatch = trimmed.match(/^!?\[\[([^\]|]+)(\|[^\]]*)?\]\]$/);
+	return (wikilinkMatch ? wikilinkMatch[1] : trimmed).trim();
+};
+
+const getExtension = (linkpath: string) =>
+	linkpath.split(".").pop()?.toLowerCase() ?? "";
+
+export const isVaultMediaLink = (mediaLink: string): boolean => {
+	const linkpath = getVaultLinkpath(mediaLink);
+	// anything with a scheme is a web url, not a vault path
+	if (/^[a-z][a-z0-9+.-]*:\/\//i.test(linkpath)) return false;
+	const extension = getExtension(linkpath);
+	return (
+		VIDEO_EXTENSIONS.includes(extension) ||
+		AUDIO_EXTENSIONS.includes(extension)
+	);
+};
+
+export const createVaultMediaProvider = (app: App): MediaProvider => {
+	const resolveFile = (mediaLink: string): TFile | null =>
+		app.metadataCache.getFirstLinkpathDest(getVaultLinkpath(mediaLink), "");
+
+	const VaultMediaPlayer: React.FC<MediaPlayerProps> = ({
+		mediaLink,
+		controllerRef,
+		initSeconds,
+		autoplay,
+		onReady,
+		onPlay,
+		onPause,
+	}) => {
+		const mediaRef = React.useRef<HTMLVideoElement & HTMLAudioElement>(null);
+		const file = resolveFile(mediaLink);
+
+		// the controller is set once the media has loaded, see onLoadedMetadata
+		React.useEffect(() => {
+			return () => {
+				controllerRef.current = null;
+			};
+		}, [file?.path]);
+
+		if (!file) {
+			return (
+				<div className="media-notes-file-error">
+					Media file not found: {getVaultLinkpath(mediaLink)}
+				</div>
+			);
+		}
+
+		const isAudio = AUDIO_EXTENSIONS.includes(file.extension.toLowerCase());
+		const mediaProps = {
+			ref: mediaRef,
+			className: `media-notes-html-player ${isAudio ? "audio" : "video"}`,
+			src: app.vault.getResourcePath(file),
+			controls: true,
+			preload: "metadata",
+			onLoadedMetadata: () => {
+				const mediaElement = mediaRef.current;
+				if (!mediaElement) return;
+				if (initSeconds) {
+					mediaElement.currentTime = initSeconds;
+				}
+				// only now, so a seek made through it isn't undone by the resume seek above
+				controllerRef.current = createHtmlMediaController(mediaElement);
+				if (autoplay) {
+					void mediaElement.play();
+				}
+				onReady?.(mediaElement.duration);
+			},
+			onPlay: () => onPlay?.(),
+			onPause: () => onPause?.(),
+			onEnded: () => onPause?.(),
+		};
+
+		return isAudio ? <audio {...mediaProps} /> : <video {...mediaProps} />;
+	};
+
+	return {
+		id: "vault",
+		supportsTranscript: false,
+		matches: isVaultMediaLink,
+		// resume data is keyed by the resolved vault path, so renaming the link style keeps it
+		getMediaId: (mediaLink) =>
+			resolveFile(mediaLink)?.path ?? getVaultLinkpath(mediaLink),
+		getStartSeconds: () => undefined,
+		Player: VaultMediaPlayer,
+	};
+};
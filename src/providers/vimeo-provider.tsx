@@ -0,0 +1,208 @@
+import * as React from "react";
+import type {
+	MediaController,
+	MediaPlayerProps,
+	MediaProvider,
+} from "./media-provider";
+
+const VIMEO_PLAYER_ORIGIN = "https://player.vimeo.com";
+// Vimeo's player only accepts rates between 0.5 and 2
+const VIMEO_PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2];
+// give up on a postMessage call after this long and resolve with the fallback value
+const VIMEO_CALL_TIMEOUT_MS = 1000;
+
+export const getVimeoVideo = (
+	url: string
+): { id: string; hash: string | null } | null => {
+	try {
+		const urlObj = new URL(url);
+		if (!urlObj.hostname.endsWith("vimeo.com")) return null;
+		// vimeo.com/ID, vimeo.com/ID/HASH, vimeo.com/channels/x/ID, player.vimeo.com/video/ID?h=HASH
+		const segments = urlObj.pathname.split("/").filter(Boolean);
+		const idIndex = segments.findIndex((segment) => /^\d+$/.test(segment));
+		if (idIndex === -1) return null;
+		const pathHash = segments[idIndex + 1];
+		const hash =
+			urlObj.searchParams.get("h") ??
+			(pathHash && /^[0-9a-f]+$/i.test(pathHash) ? pathHash : null);
+		return { id: segments[idIndex], hash };
+	} catch {
+		return null;
+	}
+};
+
+export const isVimeoUrl = (url: string): boolean => !!getVimeoVideo(url);
+
+// Vimeo start times live in the fragment: #t=90, #t=90s, #t=1m30s, #t=1h2m3s
+const parseVimeoStartTime = (url: string): number | undefined => {
+	try {
+		const match = new URL(url).hash.match(/t=([\dhms]+)/);
+		if (!match) return undefined;
+		const value = match[1];
+		if (/^\d+$/.test(value)) return Number(value);
+		const parts = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+		if (!parts) return undefined;
+		return (
+			Number(parts[1] ?? 0) * 3600 +
+			Number(parts[2] ?? 0) * 60 +
+			Number(parts[3] ?? 0)
+		);
+	} catch {
+		return undefined;
+	}
+};
+
+type VimeoMessage = {
+	event?: string;
+	method?: string;
+	value?: unknown;
+};
+
+// Wraps Vimeo's postMessage player API. Replies come back as messages with the
+// same `method`, and are matched to calls in the order they were made.
+const createVimeoBridge = (
+	iframe: HTMLIFrameElement,
+	getTimestampUrl: (seconds: number) => string
+) => {
+	const pending: { [method: string]: Array<(value: unknown) => void> } = {};
+
+	const post = (method: string, value?: unknown) => {
+		iframe.contentWindow?.postMessage(
+			JSON.stringify({ method, value }),
+			VIMEO_PLAYER_ORIGIN
+		);
+	};
+
+	const call = <T,>(method: string, fallback: T): Promise<T> =>
+		new Promise((resolve) => {
+			const queue = (pending[method] = pending[method] ?? []);
+			const resolver = (value: unknown) => resolve((value ?? fallback) as T);
+			queue.push(resolver);
+			post(method);
+			window.setTimeout(() => {
+				const index = queue.indexOf(resolver);
+				if (index === -1) return;
+				queue.splice(index, 1);
+				resolve(fallback);
+			}, VIMEO_CALL_TIMEOUT_MS);
+		});
+
+	const handleReply = (message: VimeoMessage) => {
+		if (!message.method) return;
+		pending[message.method]?.shift()?.(message.value);
+	};
+
+	const controller: MediaController = {
+		getCurrentTime: () => call("getCurrentTime", 0),
+		getDuration: () => call("getDuration", 0),
+		seekTo: (seconds) => post("setCurrentTime", Math.max(0, seconds)),
+		isPlaying: async () => !(await call("getPaused", true)),
+		play: () => post("play"),
+		pause: () => post("pause"),
+		getPlaybackRate: () => call("getPlaybackRate", 1),
+		setPlaybackRate: (rate) => post("setPlaybackRate", rate),
+		getAvailablePlaybackRates: async () => VIMEO_PLAYBACK_RATES,
+		getTimestampUrl: async (seconds) => getTimestampUrl(seconds),
+	};
+
+	return { post, handleReply, controller };
+};
+
+const VimeoPlayer: React.FC<MediaPlayerProps> = ({
+	mediaLink,
+	controllerRef,
+	initSeconds,
+	autoplay,
+	onReady,
+	onPlay,
+	onPause,
+}) => {
+	const iframeRef = React.useRef<HTMLIFrameElement>(null);
+	const video = getVimeoVideo(mediaLink);
+
+	React.useEffect(() => {
+		const iframe = iframeRef.current;
+		if (!iframe) return;
+		const bridge = createVimeoBridge(iframe, (seconds) => {
+			const videoPath = video?.hash ? `${video.id}/${video.hash}` : video?.id;
+			return `https://vimeo.com/${videoPath}#t=${Math.floor(seconds)}s`;
+		});
+
+		const handleMessage = (event: MessageEvent) => {
+			if (
+				event.origin !== VIMEO_PLAYER_ORIGIN ||
+				event.source !== iframe.contentWindow
+			) {
+				return;
+			}
+			let message: VimeoMessage;
+			try {
+				message =
+					typeof event.data === "string"
+						? JSON.parse(event.data)
+						: event.data;
+			} catch {
+				return;
+			}
+			if (!message) return;
+
+			switch (message.event) {
+				case "ready":
+					["play", "pause", "ended"].forEach((name) =>
+						bridge.post("addEventListener", name)
+					);
+					controllerRef.current = bridge.controller;
+					bridge.controller.getDuration().then((duration) => {
+						onReady?.(duration);
+					});
+					return;
+				case "play":
+					onPlay?.();
+					return;
+				case "pause":
+				case "ended":
+					onPause?.();
+					return;
+			}
+			bridge.handleReply(message);
+		};
+
+		window.addEventListener("message", handleMessage);
+		return () => {
+			window.removeEventListener("message", handleMessage);
+			controllerRef.current = null;
+		};
+	}, [video?.id]);
+
+	if (!video) return null;
+
+	const playerUrl = new URL(`${VIMEO_PLAYER_ORIGIN}/video/${video.id}`);
+	if (video.hash) {
+		playerUrl.searchParams.set("h", video.hash);
+	}
+	playerUrl.searchParams.set("autoplay", autoplay ? "1" : "0");
+	if (initSeconds) {
+		playerUrl.hash = `t=${initSeconds}s`;
+	}
+
+	return (
+		<iframe
+			ref={iframeRef}
+			className="youtube-iframe vimeo-iframe"
+			src={playerUrl.toString()}
+			allow="autoplay; fullscreen; picture-in-picture"
+		/>
+	);
+};
+
+export const vimeoProvider: MediaProvider = {
+	id: "vimeo",
+	supportsTranscript: false,
+	matches: isVimeoUrl,
+	getMediaId: (mediaLink) => {
+		const video = getVimeoVideo(mediaLink);
+		return video ? `vimeo:${video.id}` : null;
+	},
+	getStartSeconds: parseVimeoStartTime,
+	Player: VimeoPlayer,
+};
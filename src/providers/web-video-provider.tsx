@@ -0,0 +1,159 @@
+import * as React from "react";
+import { useAppContext } from "../app-context";
+import { getMatchingCssForUrl } from "../main";
+import { WebView } from "../components/web-view";
+import { executeOnMainVideo } from "../utils/create-webview-tag";
+import { HTML_MEDIA_PLAYBACK_RATES } from "./html-media-controller";
+import type {
+	MediaController,
+	MediaPlayerProps,
+	MediaProvider,
+} from "./media-provider";
+import WebviewTag = Electron.WebviewTag;
+
+// how often the page is polled for its main <video> and its play state
+const BRIDGE_POLL_MS = 1000;
+// polls for a <video> before giving up on the page, until it loads another one
+const BRIDGE_SEARCH_ATTEMPTS = 20;
+
+const createWebviewVideoController = (
+	webview: WebviewTag
+): MediaController => {
+	const run = async <T,>(body: string, fallback: T, userGesture = false) => {
+		const result = await executeOnMainVideo<T>(webview, body, userGesture);
+		return result ?? fallback;
+	};
+	return {
+		getCurrentTime: () => run("return video.currentTime;", 0),
+		getDuration: () =>
+			run("return isFinite(video.duration) ? video.duration : 0;", 0),
+		seekTo: (seconds) => {
+			void run(`video.currentTime = ${Math.max(0, Number(seconds))}; return true;`, false);
+		},
+		isPlaying: () => run("return !video.paused && !video.ended;", false),
+		play: () => {
+			// don't return the play() promise, executeJavaScript would wait on it
+			void run("video.play(); return true;", false, true);
+		},
+		pause: () => {
+			void run("video.pause(); return true;", false);
+		},
+		getPlaybackRate: () => run("return video.playbackRate;", 1),
+		setPlaybackRate: (rate) => {
+			void run(`video.playbackRate = ${Number(rate)}; return true;`, false);
+		},
+		getAvailablePlaybackRates: async () => HTML_MEDIA_PLAYBACK_RATES,
+		getTimestampUrl: async () => undefined,
+	};
+};
+
+const WebVideoPlayer: React.FC<MediaPlayerProps> = ({
+	mediaLink,
+	controllerRef,
+	initSeconds,
+	autoplay,
+	onReady,
+	onPlay,
+	onPause,
+}) => {
+	const context = useAppContext();
+	const pollRef = React.useRef<number | null>(null);
+	const matchingCss = context?.settings
+		? getMatchingCssForUrl(mediaLink, context.settings.urlCssRules)
+		: "";
+
+	const stopPolling = () => {
+		if (pollRef.current) {
+			window.clearInterval(pollRef.current);
+			pollRef.current = null;
+		}
+	};
+
+	React.useEffect(() => {
+		return () => {
+			stopPolling();
+			controllerRef.current = null;
+		};
+	}, []);
+
+	// the page may render its video late (or never), so the controller is only
+	// exposed once a <video> is found; until then commands treat this as a plain web page.
+	// Pages without one stop being polled after a while, this runs again on each page load
+	const handleFrameReady = (frame: WebviewTag | HTMLIFrameElement) => {
+		if (frame instanceof HTMLIFrameElement) return;
+		stopPolling();
+		controllerRef.current = null;
+		const controller = createWebviewVideoController(frame);
+		let wasPlaying: boolean | null = null;
+		let attempts = 0;
+
+		pollRef.current = window.setInterval(async () => {
+			const state = await executeOnMainVideo<{
+				playing: boolean;
+				duration: number;
+			}>(
+				frame,
+				"return { playing: !video.paused && !video.ended, duration: video.duration };"
+			);
+			if (!state) {
+				if (!controllerRef.current && ++attempts >= BRIDGE_SEARCH_ATTEMPTS) {
+					stopPolling();
+				}
+				return;
+			}
+
+			if (!controllerRef.current) {
+				controllerRef.current = controller;
+				if (initSeconds) {
+					controller.seekTo(initSeconds);
+				}
+				if (autoplay) {
+					controller.play();
+				}
+				onReady?.(isFinite(state.duration) ? state.duration : 0);
+			}
+			if (state.playing !== wasPlaying) {
+				wasPlaying = state.playing;
+				if (state.playing) {
+					onPlay?.();
+				} else {
+					onPause?.();
+				}
+			}
+		}, BRIDGE_POLL_MS);
+	};
+
+	return (
+		<WebView
+			url={mediaLink}
+			title="Web Preview"
+			profileKey={context?.settings?.webViewProfileKey || "media-notes-web"}
+			userAgent={context?.settings?.webViewUserAgent}
+			zoomFactor={context?.settings?.webViewZoomFactor}
+			css={matchingCss}
+			onReady={handleFrameReady}
+		/>
+	);
+};
+
+// Web pages are only taken over when isEnabled, the rest show as a plain web view
+export const createWebVideoProvider = (
+	isEnabled: () => boolean
+): MediaProvider => ({
+	id: "web-video",
+	supportsTranscript: false,
+	containerClassName: "web-preview",
+	matches: (mediaLink) =>
+		isEnabled() && /^https?:\/\//i.test(mediaLink.trim()),
+	getMediaId: (mediaLink) => {
+		try {
+			const url = new URL(mediaLink);
+			url.hash = "";
+			return url.toString();
+		} catch {
+			return null;
+		}
+	},
+	getStartSeconds: () => undefined,
+	Player: WebVideoPlayer,
+});
@@ -0,0 +1,272 @@
+import * as React from "react";
+import { request, requestUrl } from "obsidian";
+import YouTube, { YouTubeEvent, YouTubeProps } from "react-youtube";
+import type {
+	Chapter,
+	MediaController,
+	MediaPlayerProps,
+	MediaProvider,
+} from "./media-provider";
+
+export const getVideoId = (url: string) => {
+	try {
+		const urlObj = new URL(url);
+		// Check if this is a YouTube URL
+		if (urlObj.hostname.includes('youtube.com') || urlObj.hostname.includes('youtu.be')) {
+			if (urlObj.hostname.includes('youtu.be')) {
+				// Short URL format: https://youtu.be/VIDEO_ID
+				return urlObj.pathname.substring(1);
+			} else {
+				// Standard URL format: https://www.youtube.com/watch?v=VIDEO_ID
+				return urlObj.searchParams.get("v");
+			}
+		}
+		return null; // Not a YouTube URL
+	} catch {
+		return null; // Invalid URL
+	}
+};
+
+export const isYouTubeUrl = (url: string): boolean => {
+	try {
+		const urlObj = new URL(url);
+		return urlObj.hostname.includes('youtube.com') || urlObj.hostname.includes('youtu.be');
+	} catch {
+		return false;
+	}
+};
+
+export const getPlaylistId = (url: string) => {
+	if (!isYouTubeUrl(url)) return null;
+	return new URL(url).searchParams.get("list");
+};
+
+const getWatchUrl = (videoId: string) =>
+	`https://www.youtube.com/watch?v=${videoId}`;
+
+const fetchVideoTitle = async (videoUrl: string) => {
+	try {
+		const response = await requestUrl(
+			`https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(videoUrl)}`
+		);
+		return response.json?.title as string | undefined;
+	} catch (error) {
+		console.warn("Failed to fetch YouTube video title:", error);
+		return undefined;
+	}
+};
+
+// chapters are only listed in the watch page's initial data, as chapterRenderer entries
+const CHAPTER_REGEX =
+	/"chapterRenderer":\{"title":\{"simpleText":"((?:[^"\\]|\\.)*)"\},"timeRangeStartMillis":(\d+)/g;
+const chapterCache = new Map<string, Chapter[]>();
+
+const fetchVideoChapters = async (videoId: string): Promise<Chapter[]> => {
+	const cached = chapterCache.get(videoId);
+	if (cached) return cached;
+	try {
+		const page = await request(getWatchUrl(videoId));
+		const chapters: Chapter[] = [];
+		const chapterRegex = new RegExp(CHAPTER_REGEX);
+		let match;
+		while ((match = chapterRegex.exec(page)) !== null) {
+			const startSeconds = Number(match[2]) / 1000;
+			// the page lists the chapters more than once
+			if (chapters.some((chapter) => chapter.startSeconds === startSeconds)) {
+				continue;
+			}
+			chapters.push({ title: JSON.parse(`"${match[1]}"`), startSeconds });
+		}
+		chapters.sort((a, b) => a.startSeconds - b.startSeconds);
+		chapterCache.set(videoId, chapters);
+		return chapters;
+	} catch (error) {
+		console.warn("Failed to fetch YouTube chapters:", error);
+		return [];
+	}
+};
+
+const createYouTubeController = (
+	ytRef: React.RefObject<YouTube>,
+	playlistId: string | null
+): MediaController => {
+	const internalPlayer = () => ytRef.current?.getInternalPlayer();
+	const getCurrentVideoId = async () => {
+		const videoUrl = await internalPlayer()?.getVideoUrl();
+		return videoUrl ? getVideoId(videoUrl) : null;
+	};
+	const playlistControls: Partial<MediaController> = {
+		getPlaylistPosition: async () => {
+			const playlist = await internalPlayer()?.getPlaylist();
+			const index = await internalPlayer()?.getPlaylistIndex();
+			if (!playlist || index === undefined || index < 0) return null;
+			return { index, total: playlist.length };
+		},
+		getCurrentItemId: getCurrentVideoId,
+		nextItem: () => {
+			internalPlayer()?.nextVideo();
+		},
+		previousItem: () => {
+			internalPlayer()?.previousVideo();
+		},
+	};
+	return {
+		...(playlistId ? playlistControls : {}),
+		getCurrentTime: async () => (await internalPlayer()?.getCurrentTime()) ?? 0,
+		getDuration: async () => (await internalPlayer()?.getDuration()) ?? 0,
+		seekTo: (seconds) => {
+			internalPlayer()?.seekTo(seconds, true);
+		},
+		isPlaying: async () =>
+			(await internalPlayer()?.getPlayerState()) ===
+			YouTube.PlayerState.PLAYING,
+		play: () => {
+			internalPlayer()?.playVideo();
+		},
+		pause: () => {
+			internalPlayer()?.pauseVideo();
+		},
+		getPlaybackRate: async () =>
+			(await internalPlayer()?.getPlaybackRate()) ?? 1,
+		setPlaybackRate: (rate) => {
+			internalPlayer()?.setPlaybackRate(rate);
+		},
+		getAvailablePlaybackRates: async () =>
+			(await internalPlayer()?.getAvailablePlaybackRates()) ?? [1],
+		getTimestampUrl: async (seconds) => {
+			const videoUrl = await internalPlayer()?.getVideoUrl();
+			if (!videoUrl) return;
+			// for some reason, the t= param is wrong in the videoUrl from getVideoUrl. fix it
+			const fixedVideoUrl = new URL(videoUrl);
+			fixedVideoUrl.searchParams.set("t", Math.floor(seconds).toString());
+			return `${fixedVideoUrl}`;
+		},
+		getTitle: async () => {
+			const videoId = await getCurrentVideoId();
+			return videoId ? fetchVideoTitle(getWatchUrl(videoId)) : undefined;
+		},
+		getChapters: async () => {
+			const videoId = await getCurrentVideoId();
+			return videoId ? fetchVideoChapters(videoId) : [];
+		},
+	};
+};
+
+const YouTubePlayer: React.FC<MediaPlayerProps> = ({
+	mediaLink,
+	controllerRef,
+	initSeconds,
+	autoplay,
+	initPlaylistIndex,
+	getItemStartSeconds,
+	onReady,
+	onPlay,
+	onPause,
+	onItemChange,
+}) => {
+	const ytRef = React.useRef<YouTube>(null);
+	const currentItemIdRef = React.useRef<string | null>(null);
+	const videoId = getVideoId(mediaLink);
+	const playlistId = getPlaylistId(mediaLink);
+
+	React.useEffect(() => {
+		controllerRef.current = createYouTubeController(ytRef, playlistId);
+		return () => {
+			controllerRef.current = null;
+		};
+	}, []);
+
+	if (!videoId && !playlistId) return null;
+
+	const opts: YouTubeProps["opts"] = {
+		playerVars: {
+			start: initSeconds,
+			autoplay: autoplay ? 1 : 0,
+			...(playlistId ? { list: playlistId, listType: "playlist" } : {}),
+		},
+	};
+
+	// playlists move between videos on their own, so look up which one is playing
+	// and resume it from where it was left off in this note
+	const checkPlaylistItem = async () => {
+		if (!playlistId) return;
+		const videoUrl = await ytRef.current?.getInternalPlayer()?.getVideoUrl();
+		const itemId = videoUrl ? getVideoId(videoUrl) : null;
+		if (!itemId || itemId === currentItemIdRef.current) return;
+		const isFirstItem = currentItemIdRef.current === null;
+		currentItemIdRef.current = itemId;
+		if (!isFirstItem) {
+			const startSeconds = getItemStartSeconds?.(itemId);
+			if (startSeconds) {
+				ytRef.current?.getInternalPlayer()?.seekTo(startSeconds, true);
+			}
+		}
+		onItemChange?.({ id: itemId, mediaLink: getWatchUrl(itemId) });
+	};
+
+	const onStateChange: YouTubeProps["onStateChange"] = (
+		event: YouTubeEvent<number>
+	) => {
+		const state = event.data;
+		void checkPlaylistItem();
+		if (state === YouTube.PlayerState.PLAYING) {
+			onPlay?.();
+		}
+		if (
+			state === YouTube.PlayerState.PAUSED ||
+			state === YouTube.PlayerState.ENDED
+		) {
+			onPause?.();
+		}
+	};
+
+	return (
+		// @ts-ignore TS2607
+		<YouTube
+			ref={ytRef}
+			className="youtube-iframe"
+			iframeClassName={`youtube-iframe`}
+			videoId={videoId ?? undefined}
+			opts={opts}
+			onStateChange={onStateChange}
+			onReady={async (event: YouTubeEvent) => {
+				if (playlistId && initPlaylistIndex !== undefined) {
+					const playlist = {
+						list: playlistId,
+						listType: "playlist",
+						index: initPlaylistIndex,
+						startSeconds: initSeconds,
+					};
+					if (autoplay) {
+						await event.target.loadPlaylist(playlist);
+					} else {
+						await event.target.cuePlaylist(playlist);
+					}
+				}
+				const duration = await event.target.getDuration();
+				onReady?.(duration);
+			}}
+		/>
+	);
+};
+
+export const youTubeProvider: MediaProvider = {
+	id: "youtube",
+	supportsTranscript: true,
+	matches: isYouTubeUrl,
+	// playlist notes keep one entry for the playlist, plus one per video (see savePlayerTimestamp)
+	getMediaId: (mediaLink) => {
+		const playlistId = getPlaylistId(mediaLink);
+		return playlistId ? `playlist:${playlistId}` : getVideoId(mediaLink);
+	},
+	getStartSeconds: (mediaLink) => {
+		try {
+			const mediaLinkTs = new URL(mediaLink).searchParams.get("t");
+			return mediaLinkTs ? Number(mediaLinkTs) : undefined;
+		} catch (error) {
+			console.warn("Error parsing YouTube URL:", error);
+			return undefined;
+		}
+	},
+	Player: YouTubePlayer,
+};
@@ -0,0 +1,211 @@
+import { App, Editor, Modal, Notice, Setting } from "obsidian";
+import { convertTimestampToSeconds, formatTimestamp, parseTimeValue } from "./main";
+import { getTimestampLinks } from "./viewPlugin";
+
+const TIMESTAMP_REGEX = /(\d+:)?[0-5]?\d:[0-5]\d/g;
+// t=90 or t=90s, in the query (YouTube) or the fragment (Vimeo)
+const LINK_TIME_PARAM_REGEX = /([?&#]t=)(\d+)(s?)(?=&|$)/;
+
+// Rewrites every timestamp link in text with transform: the timestamps in the link
+// text, and the t= param of its url. Returns the new text and how many links changed.
+export const rewriteTimestampLinks = (
+	text: string,
+	transform: (seconds: number) => number
+) => {
+	let count = 0;
+	const lines = text.split("\n").map((line) => {
+		const links = getTimestampLinks(line);
+		// from the end, so the offsets of the earlier links stay valid
+		for (const link of [...links].reverse()) {
+			const original = line.slice(link.from, link.to);
+			const label = link.text.replace(TIMESTAMP_REGEX, (timestamp) =>
+				formatTimestamp(
+					Math.max(0, transform(convertTimestampToSeconds(timestamp)))
+				)
+			);
+			const target = link.target.replace(
+				LINK_TIME_PARAM_REGEX,
+				(_match, prefix: string, seconds: string, suffix: string) =>
+					`${prefix}${Math.max(0, Math.floor(transform(Number(seconds))))}${suffix}`
+			);
+			const rewritten = `[${label}](${target})`;
+			if (rewritten === original) continue;
+			count++;
+			line = line.slice(0, link.from) + rewritten + line.slice(link.to);
+		}
+		return line;
+	});
+	return { text: lines.join("\n"), count };
+};
+
+// maps times linearly so that fromA lands on toA and fromB on toB
+export const getRescaleTransform = (
+	fromA: number,
+	toA: number,
+	fromB: number,
+	toB: number
+) => {
+	const scale = (toB - toA) / (fromB - fromA);
+	return (seconds: number) => toA + (seconds - fromA) * scale;
+};
+
+// "-12", "+1:30" or "90" -> seconds
+const parseSignedTime = (value: string) => {
+	const trimmed = value.trim();
+	const sign = trimmed.startsWith("-") ? -1 : 1;
+	const seconds = parseTimeValue(trimmed.replace(/^[+-]/, ""));
+	return seconds === undefined ? undefined : sign * seconds;
+};
+
+// Shifts all timestamps in the note (or the selection) by a number of seconds, or
+// rescales them linearly so that two anchor timestamps land on new times.
+export class ShiftTimestampsModal extends Modal {
+	editor: Editor;
+	mode: "shift" | "rescale" = "shift";
+	shift = "";
+	anchors = { fromA: "", toA: "", fromB: "", toB: "" };
+
+	constructor(app: App, editor: Editor) {
+		super(app);
+		this.editor = editor;
+	}
+
+	onOpen() {
+		this.titleEl.setText("Shift timestamps");
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	render() {
+		const { contentEl } = this;
+		contentEl.empty();
+
+		contentEl.createEl("p", {
+			cls: "setting-item-description",
+			text: this.editor.somethingSelected()
+				? "Applies to the timestamps in the selection."
+				: "Applies to all timestamps in the note.",
+		});
+
+		new Setting(contentEl).setName("Mode").addDropdown((dropdown) =>
+			dropdown
+				.addOptions({
+					shift: "Shift by a number of seconds",
+					rescale: "Rescale between two anchors",
+				})
+				.setValue(this.mode)
+				.onChange((value) => {
+					this.mode = value as "shift" | "rescale";
+					this.render();
+				})
+		);
+
+		if (this.mode === "shift") {
+			new Setting(contentEl)
+				.setName("Shift by")
+				.setDesc("Seconds or a timestamp, negative to move earlier. e.g 15, -1:30")
+				.addText((text) =>
+					text.setValue(this.shift).onChange((value) => {
+						this.shift = value;
+					})
+				);
+		} else {
+			const addAnchor = (
+				name: string,
+				from: "fromA" | "fromB",
+				to: "toA" | "toB"
+			) => {
+				new Setting(contentEl)
+					.setName(name)
+					.setDesc("Timestamp in the note, and where it should be now")
+					.addText((text) =>
+						text
+							.setPlaceholder("01:00")
+							.setValue(this.anchors[from])
+							.onChange((value) => {
+								this.anchors[from] = value;
+							})
+					)
+					.addText((text) =>
+						text
+							.setPlaceholder("01:30")
+							.setValue(this.anchors[to])
+							.onChange((value) => {
+								this.anchors[to] = value;
+							})
+					);
+			};
+			addAnchor("First anchor", "fromA", "toA");
+			addAnchor("Second anchor", "fromB", "toB");
+		}
+
+		new Setting(contentEl).addButton((button) =>
+			button
+				.setButtonText("Update timestamps")
+				.setCta()
+				.onClick(() => this.apply())
+		);
+	}
+
+	getTransform(): ((seconds: number) => number) | undefined {
+		if (this.mode === "shift") {
+			const shift = parseSignedTime(this.shift);
+			if (shift === undefined) return;
+			return (seconds) => seconds + shift;
+		}
+		const [fromA, toA, fromB, toB] = [
+			this.anchors.fromA,
+			this.anchors.toA,
+			this.anchors.fromB,
+			this.anchors.toB,
+		].map(parseTimeValue);
+		if (
+			fromA === undefined ||
+			toA === undefined ||
+			fromB === undefined ||
+			toB === undefined ||
+			fromA === fromB
+		) {
+			return;
+		}
+		return getRescaleTransform(fromA, toA, fromB, toB);
+	}
+
+	apply() {
+		const transform = this.getTransform();
+		if (!transform) {
+			new Notice(
+				this.mode === "shift"
+					? "Enter the number of seconds to shift by"
+					: "Enter two different anchor timestamps and their new times"
+			);
+			return;
+		}
+		const { editor } = this;
+		if (editor.somethingSelected()) {
+			const { text, count } = rewriteTimestampLinks(
+				editor.getSelection(),
+				transform
+			);
+			editor.replaceSelection(text);
+			new Notice(`Updated ${count} timestamps`);
+		} else {
+			const cursor = editor.getCursor();
+			const { text, count } = rewriteTimestampLinks(editor.getValue(), transform);
+			if (count > 0) {
+				const lastLine = editor.lastLine();
+				editor.replaceRange(
+					text,
+					{ line: 0, ch: 0 },
+					{ line: lastLine, ch: editor.getLine(lastLine).length }
+				);
+				editor.setCursor(cursor);
+			}
+			new Notice(`Updated ${count} timestamps`);
+		}
+		this.close();
+	}
+}
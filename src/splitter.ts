@@ -0,0 +1,59 @@
+const MIN_PERCENT = 5;
+const MAX_PERCENT = 95;
+
+export const splitterClass = "media-notes-splitter";
+
+// Adds a draggable divider after the player container. In a vertical split it
+// changes the player's width, otherwise its height, as a percentage of the host.
+export const createSplitter = (
+	playerEl: HTMLElement,
+	{
+		isVertical,
+		onResizeEnd,
+	}: {
+		isVertical: () => boolean;
+		onResizeEnd: (percent: number, vertical: boolean) => void;
+	}
+) => {
+	const splitter = createDiv(splitterClass);
+	splitter.dataset.playerId = playerEl.dataset.playerId;
+	playerEl.after(splitter);
+
+	splitter.addEventListener("pointerdown", (event: PointerEvent) => {
+		const host = playerEl.parentElement;
+		if (!host) return;
+		event.preventDefault();
+		const vertical = isVertical();
+		const hostRect = host.getBoundingClientRect();
+		let percent: number | undefined;
+		splitter.setPointerCapture(event.pointerId);
+		// no size transition while dragging, and keep the pointer away from the iframe
+		playerEl.addClass("is-resizing");
+
+		const onMove = (moveEvent: PointerEvent) => {
+			const position = vertical
+				? (moveEvent.clientX - hostRect.left) / hostRect.width
+				: (moveEvent.clientY - hostRect.top) / hostRect.height;
+			percent = Math.min(Math.max(position * 100, MIN_PERCENT), MAX_PERCENT);
+			if (vertical) {
+				playerEl.style.width = percent + "%";
+			} else {
+				playerEl.style.height = percent + "%";
+			}
+		};
+		const onUp = () => {
+			splitter.removeEventListener("pointermove", onMove);
+			splitter.removeEventListener("pointerup", onUp);
+			splitter.removeEventListener("pointercancel", onUp);
+			playerEl.removeClass("is-resizing");
+			if (percent !== undefined) {
+				onResizeEnd(Math.round(percent), vertical);
+			}
+		};
+		splitter.addEventListener("pointermove", onMove);
+		splitter.addEventListener("pointerup", onUp);
+		splitter.addEventListener("pointercancel", onUp);
+	});
+
+	return splitter;
+};
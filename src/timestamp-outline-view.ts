@@ -0,0 +1,170 @@
+import { ItemView, MarkdownView, WorkspaceLeaf, debounce } from "obsidian";
+import type MediaNotesPlugin from "./main";
+import { convertTimestampToSeconds } from "./main";
+import { TimestampLink, getTimestampLinks, timestampRangeRegex } from "./viewPlugin";
+
+export const TIMESTAMP_OUTLINE_VIEW_TYPE = "media-notes-timestamp-outline";
+
+export interface OutlineEntry {
+	line: number;
+	link: TimestampLink;
+	// start of the timestamp or range
+	seconds: number;
+	// the rest of the line, without the timestamp link
+	text: string;
+}
+
+// "- [02:01]() - A useful insight" -> "A useful insight"
+const getEntryText = (lineText: string, link: TimestampLink) =>
+	(lineText.slice(0, link.from) + lineText.slice(link.to))
+		.replace(/^\s*([-*+>]|\d+\.)\s*/, "")
+		.replace(/^\s*[-–:]\s*/, "")
+		.trim();
+
+// every timestamp link in the note's text, sorted by time
+export const getNoteTimestamps = (text: string) => {
+	const entries: OutlineEntry[] = [];
+	text.split("\n").forEach((lineText, line) => {
+		getTimestampLinks(lineText).forEach((link) => {
+			const rangeMatch = link.text.match(timestampRangeRegex);
+			entries.push({
+				line,
+				link,
+				seconds: convertTimestampToSeconds(rangeMatch ? rangeMatch[1] : link.text),
+				text: getEntryText(lineText, link),
+			});
+		});
+	});
+	return entries.sort((a, b) => a.seconds - b.seconds || a.line - b.line);
+};
+
+// Lists the timestamp links of the active preview note sorted by time, like a table of
+// contents. The entry that's playing is highlighted, and clicking one seeks to it.
+export class TimestampOutlineView extends ItemView {
+	plugin: MediaNotesPlugin;
+	// the note being listed, kept while the focus is in this panel
+	markdownView: MarkdownView | null = null;
+	entries: OutlineEntry[] = [];
+	listEl: HTMLElement;
+
+	constructor(leaf: WorkspaceLeaf, plugin: MediaNotesPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return TIMESTAMP_OUTLINE_VIEW_TYPE;
+	}
+
+	getDisplayText() {
+		return "Timestamps";
+	}
+
+	getIcon() {
+		return "clock";
+	}
+
+	async onOpen() {
+		this.contentEl.empty();
+		this.contentEl.addClass("timestamp-outline");
+		this.listEl = this.contentEl.createDiv("timestamp-outline-list");
+
+		const refresh = debounce(() => this.refresh(), 300, true);
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", (leaf) => {
+				if (leaf?.view instanceof MarkdownView) {
+					this.markdownView = leaf.view;
+					this.refresh();
+				}
+			})
+		);
+		// opening another note in the same pane doesn't change the active leaf
+		this.registerEvent(
+			this.app.workspace.on("file-open", () => {
+				const view = this.app.workspace.getActiveViewOfType(MarkdownView);
+				if (view) this.markdownView = view;
+				this.refresh();
+			})
+		);
+		this.registerEvent(this.app.workspace.on("editor-change", refresh));
+		this.registerInterval(
+			window.setInterval(() => void this.highlightPlaying(), 1000)
+		);
+
+		this.markdownView = this.app.workspace.getActiveViewOfType(MarkdownView);
+		this.refresh();
+	}
+
+	async onClose() {
+		this.contentEl.empty();
+	}
+
+	refresh() {
+		const view = this.markdownView;
+		this.entries = view?.file ? getNoteTimestamps(view.getViewData()) : [];
+		this.render();
+	}
+
+	render() {
+		this.listEl.empty();
+		if (this.entries.length === 0) {
+			this.listEl.createDiv({
+				cls: "timestamp-outline-empty",
+				text: this.markdownView?.file
+					? "No timestamps in this note"
+					: "Open a note with timestamps",
+			});
+			return;
+		}
+		this.entries.forEach((entry, index) => {
+			const itemEl = this.listEl.createDiv({
+				cls: "timestamp-outline-item",
+				attr: { "data-index": index },
+			});
+			itemEl.createSpan({ cls: "timestamp-outline-time", text: entry.link.text });
+			itemEl.createSpan({ cls: "timestamp-outline-text", text: entry.text });
+			itemEl.onclick = () => this.openEntry(entry);
+		});
+		void this.highlightPlaying();
+	}
+
+	// scrolls the note to the entry's line and seeks its player there
+	openEntry(entry: OutlineEntry) {
+		const view = this.markdownView;
+		if (!view) return;
+		if (view.getMode() === "preview") {
+			view.previewMode.applyScroll(entry.line);
+		} else {
+			const position = { line: entry.line, ch: entry.link.from + 1 };
+			view.editor.setCursor(position);
+			view.editor.scrollIntoView({ from: position, to: position }, true);
+		}
+		this.plugin.seekViewToTimestamp(view, entry.link.text, entry.link.target);
+	}
+
+	// highlights the last entry at or before the current playback time
+	async highlightPlaying() {
+		const view = this.markdownView;
+		if (!view || this.entries.length === 0) return;
+		const playerId = this.plugin.getActiveViewPlayerId(view);
+		const controller =
+			playerId !== undefined
+				? this.plugin.players[playerId]?.controllerRef.current
+				: undefined;
+		const seconds = controller ? await controller.getCurrentTime() : undefined;
+		let playingIndex = -1;
+		if (seconds !== undefined) {
+			this.entries.forEach((entry, index) => {
+				if (entry.seconds <= seconds) playingIndex = index;
+			});
+		}
+		this.listEl
+			.querySelectorAll<HTMLElement>(".timestamp-outline-item")
+			.forEach((itemEl) => {
+				itemEl.toggleClass(
+					"is-active",
+					Number(itemEl.dataset.index) === playingIndex
+				);
+			});
+	}
+}
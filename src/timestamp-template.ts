@@ -0,0 +1,78 @@
+export type TemplateVariables = Record<string, string | number | undefined>;
+
+export interface NamedTemplate {
+	// stable id for the template's command, so hotkeys survive renaming it
+	id: string;
+	name: string;
+	template: string;
+}
+
+export const TEMPLATE_VARIABLES = [
+	"ts",
+	"link",
+	"title",
+	"videoId",
+	"seconds",
+	"ms",
+	"speed",
+	"date",
+	"sentence",
+	"chapter",
+	"note",
+];
+
+// what the settings preview renders templates with
+export const SAMPLE_TEMPLATE_VARIABLES: TemplateVariables = {
+	ts: "12:05",
+	link: "https://www.youtube.com/watch?v=MFXWY8TqSWw&t=725",
+	title: "Example video",
+	videoId: "MFXWY8TqSWw",
+	seconds: 725,
+	ms: 725000,
+	speed: 1.5,
+	date: "2024-01-31",
+	sentence: "This is the sentence being spoken.",
+	chapter: "Introduction",
+	note: "Lecture notes",
+	quote: "This is what the speaker just said.",
+};
+
+const hasValue = (value: string | number | undefined) =>
+	value !== undefined && value !== "";
+
+// {#name}...{/name} is kept when name has a value, {^name}...{/name} when it doesn't
+const SECTION_REGEX = /\{([#^])(\w+)\}([\s\S]*?)\{\/\2\}/g;
+const VARIABLE_REGEX = /\{(\w+)\}/g;
+
+// the variables a template refers to, in placeholders or sections
+export const getTemplateVariableNames = (template: string) => {
+	const names = new Set<string>();
+	const matches = template.match(/\{[#^/]?\w+\}/g) ?? [];
+	matches.forEach((match) => names.add(match.replace(/[{}#^/]/g, "")));
+	return names;
+};
+
+// Renders a timestamp template: every {name} is replaced with its variable, sections
+// are kept or dropped depending on whether their variable is set, and a literal \n
+// becomes a new line. Unknown placeholders are left as they are.
+export const renderTemplate = (
+	template: string,
+	variables: TemplateVariables
+) => {
+	let output = template;
+	// sections can be nested, so keep going until none are left
+	let previous;
+	do {
+		previous = output;
+		output = output.replace(
+			SECTION_REGEX,
+			(_match, kind: string, name: string, body: string) =>
+				(kind === "#") === hasValue(variables[name]) ? body : ""
+		);
+	} while (output !== previous);
+
+	output = output.replace(VARIABLE_REGEX, (match, name: string) =>
+		name in variables ? String(variables[name] ?? "") : match
+	);
+	return output.replace(/\\n/g, "\n");
+};
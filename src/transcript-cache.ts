@@ -0,0 +1,118 @@
+import { DataAdapter } from "obsidian";
+import { YoutubeTranscript } from "./youtube-transcript";
+import type { TranscriptConfig, TranscriptResponse } from "./types";
+import { getVideoId } from "./providers/youtube-provider";
+
+interface TranscriptCacheEntry {
+	videoId: string;
+	// the caption track, or the languages it was picked from
+	lang: string;
+	// when it was downloaded, in ms
+	fetchedAt: number;
+	transcript: TranscriptResponse;
+}
+
+export interface TranscriptCacheLimits {
+	// transcripts kept, 0 turns the cache off
+	maxEntries: number;
+	// days before a transcript is downloaded again, 0 never downloads it again
+	maxAgeDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keeps downloaded YouTube transcripts in a JSON file in the plugin folder, by video
+// and language, so notes open without fetching the watch page again. An expired
+// transcript is still used when it can't be downloaded again, e.g while offline.
+// The whole file is written again after each download, so a large size limit makes
+// downloads slower to save.
+export class TranscriptCache {
+	adapter: DataAdapter;
+	path: string;
+	getLimits: () => TranscriptCacheLimits;
+	// loaded on first use
+	entries: Record<string, TranscriptCacheEntry> | null = null;
+
+	constructor(
+		adapter: DataAdapter,
+		path: string,
+		getLimits: () => TranscriptCacheLimits
+	) {
+		this.adapter = adapter;
+		this.path = path;
+		this.getLimits = getLimits;
+	}
+
+	// refresh skips the cached copy and downloads the transcript again
+	getTranscript = async (
+		url: string,
+		config: TranscriptConfig,
+		refresh = false
+	): Promise<TranscriptResponse> => {
+		const videoId = getVideoId(url);
+		const { maxEntries, maxAgeDays } = this.getLimits();
+		if (!videoId || maxEntries === 0) {
+			return YoutubeTranscript.getTranscript(url, config);
+		}
+		const entries = await this.load();
+		const lang = config.track
+			? `${config.track.languageCode}${config.track.autoGenerated ? " (asr)" : ""}`
+			: [config.lang, ...(config.fallbackLangs ?? [])].join(",");
+		const key = `${videoId}:${lang}`;
+		const cached = entries[key];
+		if (cached && !refresh && !this.isExpired(cached, maxAgeDays)) {
+			return cached.transcript;
+		}
+
+		let transcript: TranscriptResponse;
+		try {
+			transcript = await YoutubeTranscript.getTranscript(url, config);
+		} catch (error) {
+			if (cached) return cached.transcript;
+			throw error;
+		}
+		entries[key] = { videoId, lang, fetchedAt: Date.now(), transcript };
+		try {
+			await this.save();
+		} catch (error) {
+			console.error("Failed to write the transcript cache:", error);
+		}
+		return transcript;
+	};
+
+	clear = async () => {
+		this.entries = {};
+		await this.save();
+	};
+
+	isExpired(entry: TranscriptCacheEntry, maxAgeDays: number) {
+		return maxAgeDays > 0 && Date.now() - entry.fetchedAt > maxAgeDays * DAY_MS;
+	}
+
+	async load() {
+		if (this.entries) return this.entries;
+		try {
+			this.entries = (await this.adapter.exists(this.path))
+				? JSON.parse(await this.adapter.read(this.path))
+				: {};
+		} catch (error) {
+			console.error("Failed to read the transcript cache:", error);
+			this.entries = {};
+		}
+		return this.entries ?? {};
+	}
+
+	// keeps the most recently downloaded transcripts up to the limit, and writes them
+	async save() {
+		const entries = await this.load();
+		const kept: Record<string, TranscriptCacheEntry> = {};
+		Object.keys(entries)
+			.sort((a, b) => entries[b].fetchedAt - entries[a].fetchedAt)
+			.slice(0, this.getLimits().maxEntries)
+			.forEach((key) => {
+				kept[key] = entries[key];
+			});
+		this.entries = kept;
+		await this.adapter.write(this.path, JSON.stringify(kept));
+	}
+}
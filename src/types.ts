@@ -15,12 +15,28 @@ export class YoutubeTranscriptError extends Error {
 
 export interface TranscriptConfig {
 	lang?: string;
+	// languages to fall back on in order, when the video has no captions in lang
+	fallbackLangs?: string[];
+	// a specific caption track, takes precedence over the languages
+	track?: CaptionTrack;
 	country?: string;
 }
 
+export interface CaptionTrack {
+	languageCode: string;
+	// as YouTube shows it, e.g "English (auto-generated)"
+	name: string;
+	// generated by speech recognition rather than uploaded
+	autoGenerated: boolean;
+}
+
 export interface TranscriptResponse {
 	title: string;
 	lines: TranscriptLine[];
+	// every caption track the video has
+	tracks?: CaptionTrack[];
+	// the track the lines are from, when the video's tracks could be read
+	track?: CaptionTrack;
 }
 
 export interface TranscriptLine {
@@ -16,7 +16,7 @@ declare namespace Electron {
         goBack(): void;
         goForward(): void;
         insertCSS(css: string): Promise<string>;
-        executeJavaScript(code: string): Promise<any>;
+        executeJavaScript(code: string, userGesture?: boolean): Promise<any>;
         setZoomFactor(factor: number): void;
         getZoomFactor(): number;
         getURL(): string;
@@ -68,4 +68,23 @@ export const createWebviewTag = (params: Partial<WebViewFrameOption>, onReady?:
     });
 
     return webviewTag;
-};
\ No newline at end of file
+};
+
+// Script that locates the main <video> of the page (the largest one by area) and
+// evaluates the given function body against it, with the element bound to `video`.
+// Resolves to null when the page has no video element.
+const mainVideoScript = (body: string) => `(() => {
+    const videos = Array.from(document.querySelectorAll('video'));
+    const video = videos.sort((a, b) => (b.clientWidth * b.clientHeight) - (a.clientWidth * a.clientHeight))[0];
+    if (!video) return null;
+    ${body}
+})()`;
+
+export const executeOnMainVideo = async <T>(webviewTag: WebviewTag, body: string, userGesture = false): Promise<T | null> => {
+    try {
+        return await webviewTag.executeJavaScript(mainVideoScript(body), userGesture);
+    } catch (error) {
+        console.warn('Failed to execute script on webview video:', error);
+        return null;
+    }
+};
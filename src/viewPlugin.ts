@@ -1,8 +1,68 @@
 import { EditorView, ViewPlugin, ViewUpdate } from "@codemirror/view";
+import { Keymap } from "obsidian";
+
+export const timestampRegex = /^(\d+:)?[0-5]?\d:[0-5]\d$/;
+// a segment, e.g 12:30-13:05
+export const timestampRangeRegex =
+	/^((?:\d+:)?[0-5]?\d:[0-5]\d)\s*-\s*((?:\d+:)?[0-5]?\d:[0-5]\d)$/;
+
+export const isTimestampLinkText = (text: string) =>
+	timestampRegex.test(text) || timestampRangeRegex.test(text);
+
+// modifier-clicking a range link loops it instead of stopping at its end
+export const isLoopClick = (event: MouseEvent) => Keymap.isModifier(event, "Mod");
+
+// Target of the markdown link around a document position, e.g "#src=2" for [2:01](#src=2).
+// Live preview hides the url part, so it has to be read from the document text.
+export const getLinkTargetAt = (
+	lineText: string,
+	offset: number
+): string | undefined => {
+	const linkRegex = /\[([^\]]*)\]\(([^)]*)\)/g;
+	let match;
+	while ((match = linkRegex.exec(lineText)) !== null) {
+		if (offset >= match.index && offset <= match.index + match[0].length) {
+			return match[2];
+		}
+	}
+	return undefined;
+};
+
+export interface TimestampLink {
+	// offsets of the whole [text](target) link within the line
+	from: number;
+	to: number;
+	text: string;
+	target: string;
+}
+
+// markdown links in a line whose text is a timestamp or range, like the ones the click handler acts on
+export const getTimestampLinks = (lineText: string): TimestampLink[] => {
+	const linkRegex = /\[([^\]]*)\]\(([^)]*)\)/g;
+	const links: TimestampLink[] = [];
+	let match;
+	while ((match = linkRegex.exec(lineText)) !== null) {
+		const text = match[1].trim();
+		if (!isTimestampLinkText(text)) continue;
+		links.push({
+			from: match.index,
+			to: match.index + match[0].length,
+			text,
+			target: match[2],
+		});
+	}
+	return links;
+};
+
+export type TimestampClickHandler = (
+	ts: string,
+	linkTarget?: string,
+	loop?: boolean
+) => boolean | undefined;
 
 class ClickHandlerPlugin {
 	view: EditorView;
-	handleTimestampClick: (ts: string) => boolean | undefined;
+	handleTimestampClick: TimestampClickHandler;
 
 	constructor(view: EditorView) {
 		this.view = view;
@@ -13,10 +73,13 @@ class ClickHandlerPlugin {
 		const element = event.target as HTMLElement;
 		if (element.matches("span.cm-link, span.cm-link *")) {
 			const textContent = element.textContent;
-			const timestampRegex = /^(\d+:)?[0-5]?\d:[0-5]\d$/;
 			if (!textContent) return;
-			if (timestampRegex.test(textContent)) {
-				const isHandled = this.handleTimestampClick(textContent);
+			if (isTimestampLinkText(textContent)) {
+				const isHandled = this.handleTimestampClick(
+					textContent,
+					this.getLinkTarget(element),
+					isLoopClick(event)
+				);
 				if (isHandled) {
 					event.preventDefault();
 					event.stopPropagation();
@@ -26,6 +89,16 @@ class ClickHandlerPlugin {
 		}
 	};
 
+	getLinkTarget = (element: HTMLElement) => {
+		try {
+			const pos = this.view.posAtDOM(element);
+			const line = this.view.state.doc.lineAt(pos);
+			return getLinkTargetAt(line.text, pos - line.from);
+		} catch {
+			return undefined;
+		}
+	};
+
 	update(update: ViewUpdate) {
 		update.view.dom.addEventListener("click", this.handleClick);
 		// This method is called whenever the view is updated
@@ -40,7 +113,7 @@ class ClickHandlerPlugin {
 export const clickHandlerPlugin = ViewPlugin.fromClass(ClickHandlerPlugin);
 
 export function createClickHandlerPlugin(
-	handleTimestampClick: (ts: string) => boolean | undefined
+	handleTimestampClick: TimestampClickHandler
 ) {
 	return ViewPlugin.fromClass(
 		class extends ClickHandlerPlugin {
@@ -5,6 +5,7 @@ import { YoutubeTranscriptError } from "./types";
 
 export { YoutubeTranscriptError } from "./types";
 export type {
+	CaptionTrack,
 	TranscriptConfig,
 	TranscriptLine,
 	TranscriptResponse,
@@ -72,6 +73,8 @@ export class YoutubeTranscript {
 						return {
 							title: videoData.title,
 							lines,
+							tracks: videoData.tracks,
+							track: videoData.track,
 						};
 					} else {
 						console.log(